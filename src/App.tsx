@@ -1,22 +1,47 @@
 import { useState, useEffect, useCallback } from 'react'
 import { ExcalidrawEditor } from './components/ExcalidrawEditor'
 import { Dashboard } from './components/Dashboard'
+import { RepairView } from './components/RepairView'
+import { LegacyImportView } from './components/LegacyImportView'
 import { ErrorBoundary } from './components/ErrorBoundary'
+import { ConflictDialog } from './components/editor/ConflictDialog'
+import type { ConflictResolution } from './components/editor/ConflictDialog'
 import { useLogseq } from './hooks/useLogseq'
 import { useTheme } from './hooks/useTheme'
 import { refreshSearchIndex, updateDrawingCommands, rememberCurrentPage } from './lib/plugin'
 import { logger } from './lib/logger'
-import type { RenderAppProps, Drawing, AppMode } from './types'
+import { guardedExit } from './lib/exitGuard'
+import { ConflictError, drawingStore, mergeDrawings } from './lib/store'
+import { useSettings } from './hooks/useSettings'
+import type { RenderAppProps, Drawing, DrawingMeta, AppMode } from './types'
 
 interface AppProps extends RenderAppProps { }
 
 export default function App({ mode: initialMode, drawingId }: AppProps) {
   const [mode, setMode] = useState<AppMode>(initialMode)
   const [currentDrawing, setCurrentDrawing] = useState<Drawing | null>(null)
-  const [drawings, setDrawings] = useState<Drawing[]>([])
+  const [drawings, setDrawings] = useState<DrawingMeta[]>([])
+  const [trash, setTrash] = useState<DrawingMeta[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [conflict, setConflict] = useState<ConflictError | null>(null)
+  // Bumped to remount the editor with a scene it didn't produce itself
+  const [editorEpoch, setEditorEpoch] = useState(0)
   const { theme } = useTheme()
-  const { loadDrawings, loadDrawing, saveDrawing, createDrawing, updateDrawingMeta, deleteDrawing } = useLogseq()
+  const { trashRetentionDays } = useSettings()
+  const {
+    loadDrawings,
+    loadDrawing,
+    saveDrawing,
+    createDrawing,
+    updateDrawingMeta,
+    loadTrash,
+    trashDrawing,
+    restoreDrawing,
+    deleteDrawing,
+    migrateAllDrawings,
+    restoreSnapshot,
+    forkSnapshot,
+  } = useLogseq()
 
   // Load drawings on mount
   useEffect(() => {
@@ -24,7 +49,16 @@ export default function App({ mode: initialMode, drawingId }: AppProps) {
     loadDrawings()
       .then(setDrawings)
       .finally(() => setIsLoading(false))
-  }, [loadDrawings])
+    loadTrash().then(setTrash)
+  }, [loadDrawings, loadTrash])
+
+  // Keep the list in sync with store writes (reads only the metadata index)
+  useEffect(() => {
+    return drawingStore.subscribe(() => {
+      loadDrawings().then(setDrawings)
+      loadTrash().then(setTrash)
+    })
+  }, [loadDrawings, loadTrash])
 
   // Refresh search index and update commands when drawings change
   useEffect(() => {
@@ -51,7 +85,6 @@ export default function App({ mode: initialMode, drawingId }: AppProps) {
     await rememberCurrentPage()
     const drawing = await createDrawing(name, tags?.[0])
     if (drawing) {
-      setDrawings((prev) => [drawing, ...prev])
       setCurrentDrawing(drawing)
       setMode('edit')
     }
@@ -68,50 +101,122 @@ export default function App({ mode: initialMode, drawingId }: AppProps) {
   }, [loadDrawing])
 
   const handleSaveDrawing = useCallback(async (drawing: Drawing) => {
-    const saved = await saveDrawing(drawing)
-    if (saved) {
-      setCurrentDrawing(saved)
-      setDrawings((prev) =>
-        prev.map((d) => (d.id === saved.id ? saved : d))
-      )
+    try {
+      const saved = await saveDrawing(drawing)
+      if (saved) {
+        setCurrentDrawing(saved)
+      }
+      return saved
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error
+      logger.warn('Save conflict:', error.message)
+      setConflict(error)
+      return null
     }
-    return saved
   }, [saveDrawing])
 
+  const handleResolveConflict = useCallback(async (resolution: ConflictResolution) => {
+    if (!conflict) return
+    const { local, remote } = conflict
+    setConflict(null)
+
+    let next: Drawing | null = remote
+    try {
+      if (resolution === 'overwrite') {
+        next = await saveDrawing(local, { force: true })
+      } else if (resolution === 'merge') {
+        // The editor's drawing is still the version both sides started from
+        next = await handleSaveDrawing(mergeDrawings(local, remote, currentDrawing ?? undefined))
+      }
+    } catch (error) {
+      logger.error('Failed to resolve conflict:', error)
+      logseq.UI.showMsg('Save failed, your changes are still in the editor', 'error')
+      return
+    }
+
+    if (next) {
+      setCurrentDrawing(next)
+      setEditorEpoch((epoch) => epoch + 1)
+    }
+  }, [conflict, currentDrawing, saveDrawing, handleSaveDrawing])
+
+  const handleRestoreSnapshot = useCallback(async (snapshotId: string) => {
+    if (!currentDrawing) return null
+    const restored = await restoreSnapshot(currentDrawing.id, snapshotId)
+    if (restored) {
+      setCurrentDrawing(restored)
+    }
+    return restored
+  }, [restoreSnapshot, currentDrawing])
+
+  const handleForkSnapshot = useCallback(async (snapshotId: string) => {
+    if (!currentDrawing) return null
+    const forked = await forkSnapshot(currentDrawing.id, snapshotId, `${currentDrawing.name} (copy)`)
+    if (forked) {
+      logseq.UI.showMsg(`Opened "${forked.name}"`, 'success')
+      setCurrentDrawing(forked)
+    }
+    return forked
+  }, [forkSnapshot, currentDrawing])
+
   const handleUpdateDrawing = useCallback(async (id: string, updates: { name?: string; tags?: string[] }) => {
     const updated = await updateDrawingMeta(id, updates)
-    if (updated) {
-      setDrawings((prev) =>
-        prev.map((d) => (d.id === updated.id ? updated : d))
-      )
-      if (currentDrawing?.id === updated.id) {
-        setCurrentDrawing(updated)
-      }
+    if (updated && currentDrawing?.id === updated.id) {
+      setCurrentDrawing({
+        ...currentDrawing,
+        name: updated.name,
+        tags: updated.tags,
+        updatedAt: updated.updatedAt,
+        revision: updated.revision,
+      })
     }
     return updated
   }, [updateDrawingMeta, currentDrawing])
 
   const handleDeleteDrawing = useCallback(async (id: string) => {
-    const success = await deleteDrawing(id)
+    const success = await trashDrawing(id)
     if (success) {
-      setDrawings((prev) => prev.filter((d) => d.id !== id))
+      logseq.UI.showMsg('Moved to Trash', 'success')
       if (currentDrawing?.id === id) {
         setCurrentDrawing(null)
         setMode('dashboard')
       }
     }
     return success
-  }, [deleteDrawing, currentDrawing])
+  }, [trashDrawing, currentDrawing])
+
+  const handleRestoreDrawing = useCallback(async (id: string) => {
+    const success = await restoreDrawing(id)
+    if (success) {
+      logseq.UI.showMsg('Drawing restored', 'success')
+    }
+    return success
+  }, [restoreDrawing])
+
+  const handleEmptyTrash = useCallback(async () => {
+    let purged = 0
+    for (const { id } of trash) {
+      if (await deleteDrawing(id)) purged++
+    }
+    logseq.UI.showMsg(`Permanently deleted ${purged} drawing(s)`, 'success')
+    return purged
+  }, [deleteDrawing, trash])
+
+  const handleMigrateAll = useCallback(async () => {
+    const migrated = await migrateAllDrawings()
+    logseq.UI.showMsg(`Upgraded ${migrated} drawing(s)`, 'success')
+    return migrated
+  }, [migrateAllDrawings])
 
-  const handleBackToDashboard = useCallback(() => {
+  const handleBackToDashboard = useCallback(() => guardedExit(() => {
     logger.debug('handleBackToDashboard called')
     setCurrentDrawing(null)
     setMode('dashboard')
     // Reload drawings list
     loadDrawings().then(setDrawings)
-  }, [loadDrawings])
+  }), [loadDrawings])
 
-  const handleClose = useCallback(async () => {
+  const handleClose = useCallback(() => guardedExit(async () => {
     logger.debug('handleClose called')
 
     try {
@@ -127,7 +232,7 @@ export default function App({ mode: initialMode, drawingId }: AppProps) {
       logger.error('handleClose error:', e)
       logseq.hideMainUI()
     }
-  }, [])
+  }), [])
 
   return (
     <ErrorBoundary>
@@ -146,19 +251,45 @@ export default function App({ mode: initialMode, drawingId }: AppProps) {
             onCreate={handleCreateDrawing}
             onUpdate={handleUpdateDrawing}
             onDelete={handleDeleteDrawing}
+            trash={trash}
+            trashRetentionDays={trashRetentionDays}
+            onRestore={handleRestoreDrawing}
+            onPurge={deleteDrawing}
+            onEmptyTrash={handleEmptyTrash}
+            onMigrateAll={handleMigrateAll}
             onClose={handleClose}
           />
-        ) : (mode === 'edit' || mode === 'preview') && currentDrawing ? (
+        ) : mode === 'repair' ? (
+          <RepairView
+            onBack={handleBackToDashboard}
+            onClose={handleClose}
+          />
+        ) : mode === 'legacy-import' ? (
+          <LegacyImportView
+            onBack={handleBackToDashboard}
+            onClose={handleClose}
+          />
+        ) : (mode === 'edit' || mode === 'preview' || mode === 'present') && currentDrawing ? (
           <ExcalidrawEditor
+            key={`${currentDrawing.id}:${editorEpoch}`}
             drawing={currentDrawing}
             mode={mode}
             theme={theme}
             onSave={handleSaveDrawing}
+            onRestoreSnapshot={handleRestoreSnapshot}
+            onForkSnapshot={handleForkSnapshot}
             onBack={handleBackToDashboard}
             onModeChange={setMode}
             onClose={handleClose}
           />
         ) : null}
+        {conflict && (
+          <ConflictDialog
+            local={conflict.local}
+            remote={conflict.remote}
+            onResolve={handleResolveConflict}
+          />
+        )}
       </div>
     </ErrorBoundary>
   )
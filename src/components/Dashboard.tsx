@@ -1,11 +1,32 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useRef } from 'react'
 import type { DashboardProps } from '../types'
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion } from '../lib/store'
+import { useLibraryBackup } from '../hooks/useLibraryBackup'
+import { useExcalidrawFiles } from '../hooks/useExcalidrawFiles'
+import { useSettings } from '../hooks/useSettings'
+import { isExcalidrawLibraryFile } from '../lib/excalidrawFile'
+import { getShapeLibraryTag } from '../lib/settings'
 import { SearchHeader } from './dashboard/SearchHeader'
 import { TagFilterBar } from './dashboard/TagFilterBar'
 import { DrawingCard } from './dashboard/DrawingCard'
 import { CreateDialog } from './dashboard/CreateDialog'
+import { TrashView } from './dashboard/TrashView'
+import { ImportLibraryDialog } from './dashboard/ImportLibraryDialog'
 
-export function Dashboard({ drawings, onOpen, onCreate, onUpdate, onDelete, onClose }: DashboardProps) {
+export function Dashboard({
+  drawings,
+  onOpen,
+  onCreate,
+  onUpdate,
+  onDelete,
+  trash,
+  trashRetentionDays,
+  onRestore,
+  onPurge,
+  onEmptyTrash,
+  onMigrateAll,
+  onClose,
+}: DashboardProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedTag, setSelectedTag] = useState<string | null>(null)
 
@@ -14,6 +35,23 @@ export function Dashboard({ drawings, onOpen, onCreate, onUpdate, onDelete, onCl
   const [newTag, setNewTag] = useState('')
 
   const [editingTagsId, setEditingTagsId] = useState<string | null>(null)
+  const [isMigrating, setIsMigrating] = useState(false)
+  const [isTrashOpen, setIsTrashOpen] = useState(false)
+
+  const settings = useSettings()
+  const { defaultTag } = settings
+  const library = useLibraryBackup()
+  const archiveInputRef = useRef<HTMLInputElement>(null)
+
+  const sceneFiles = useExcalidrawFiles()
+  const sceneInputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+
+  // Drawings stored in an older schema, upgraded lazily on open or in bulk here
+  const outdatedCount = useMemo(
+    () => drawings.filter(d => getSchemaVersion(d) < CURRENT_SCHEMA_VERSION).length,
+    [drawings]
+  )
 
   // Extract all unique tags from drawings
   const allTags = useMemo(() => {
@@ -34,6 +72,11 @@ export function Dashboard({ drawings, onOpen, onCreate, onUpdate, onDelete, onCl
     })
   }, [drawings, searchQuery, selectedTag])
 
+  const openCreateDialog = () => {
+    setNewTag(defaultTag)
+    setIsCreateOpen(true)
+  }
+
   const handleCreate = async () => {
     if (!newName.trim()) return
     const tags = newTag.trim() ? [newTag.trim().replace(/^#/, '')] : []
@@ -45,60 +88,181 @@ export function Dashboard({ drawings, onOpen, onCreate, onUpdate, onDelete, onCl
     }
   }
 
+  const handleMigrateAll = async () => {
+    setIsMigrating(true)
+    try {
+      await onMigrateAll()
+    } finally {
+      setIsMigrating(false)
+    }
+  }
+
+  // Shape library files go to the library of the tag being viewed, if kept per tag
+  const shapeLibraryTag = getShapeLibraryTag(settings, selectedTag ? [selectedTag] : [])
+
+  // Scenes become new drawings; .excalidrawlib files are added to the shape library
+  const importFiles = (files: File[]) => {
+    const libraries = files.filter(isExcalidrawLibraryFile)
+    const scenes = files.filter((file) => !isExcalidrawLibraryFile(file))
+    if (libraries.length > 0) sceneFiles.importLibraryFiles(libraries, shapeLibraryTag)
+    if (scenes.length > 0) sceneFiles.importFiles(scenes)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDragging(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return
+    setIsDragging(false)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length > 0) importFiles(files)
+  }
+
   return (
-    <div className="fixed inset-0 z-50 bg-[#f5f5f7] dark:bg-[#000000] flex flex-col font-sans overflow-hidden">
+    <div
+      className="fixed inset-0 z-50 bg-[#f5f5f7] dark:bg-[#000000] flex flex-col font-sans overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <SearchHeader
         searchQuery={searchQuery}
         setSearchQuery={setSearchQuery}
-        onNew={() => setIsCreateOpen(true)}
+        onNew={openCreateDialog}
         totalCount={drawings.length}
+        trashCount={trash.length}
+        isTrashOpen={isTrashOpen}
+        onToggleTrash={() => setIsTrashOpen(!isTrashOpen)}
+        onExportLibrary={library.exportLibrary}
+        onImportLibrary={() => archiveInputRef.current?.click()}
+        onImportScenes={() => sceneInputRef.current?.click()}
+        onExportShapes={() => sceneFiles.exportLibrary(shapeLibraryTag)}
+        shapeLibraryTag={shapeLibraryTag}
+        isLibraryBusy={library.isBusy}
+      />
+
+      <input
+        ref={archiveInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          // Reset so picking the same file again still fires onChange
+          e.target.value = ''
+          if (file) library.openArchive(file)
+        }}
+      />
+
+      <input
+        ref={sceneInputRef}
+        type="file"
+        accept=".excalidraw,.excalidrawlib,application/vnd.excalidraw+json,application/vnd.excalidrawlib+json"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? [])
+          e.target.value = ''
+          if (files.length > 0) importFiles(files)
+        }}
       />
 
+      {(isDragging || sceneFiles.isImporting) && (
+        <div className="fixed inset-0 z-[60] pointer-events-none flex items-center justify-center bg-blue-500/5 backdrop-blur-[2px]">
+          <div className="px-8 py-6 rounded-3xl border-2 border-dashed border-blue-500/50 bg-[var(--bg-app)] shadow-2xl text-center">
+            <p className="text-lg font-bold text-[var(--text-main)]">
+              {sceneFiles.isImporting ? 'Importing...' : 'Drop .excalidraw or .excalidrawlib files to import'}
+            </p>
+            <p className="text-sm text-[var(--text-dim)] mt-1">Each scene becomes a new drawing; libraries are added to the shape library</p>
+          </div>
+        </div>
+      )}
+
       <main
         className="flex-1 overflow-y-auto px-8 py-8"
         onClick={() => setEditingTagsId(null)} // Close inline tag editors when clicking background
       >
         <div className="max-w-6xl mx-auto">
-          <TagFilterBar
-            allTags={allTags}
-            selectedTag={selectedTag}
-            setSelectedTag={setSelectedTag}
-          />
-
-          {filteredDrawings.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8 mt-8 pb-12">
-              {filteredDrawings.map((drawing) => (
-                <DrawingCard
-                  key={drawing.id}
-                  drawing={drawing}
-                  onOpen={onOpen}
-                  onUpdate={onUpdate}
-                  onDelete={onDelete}
-                  isEditingTag={editingTagsId === drawing.id}
-                  setIsEditingTag={(isEditing) => setEditingTagsId(isEditing ? drawing.id : null)}
-                />
-              ))}
+          {outdatedCount > 0 && (
+            <div className="flex items-center justify-between gap-4 mb-4 px-5 py-3 rounded-2xl bg-amber-500/10 text-amber-700 dark:text-amber-400">
+              <span className="text-[13px] font-medium">
+                {outdatedCount} {outdatedCount === 1 ? 'drawing uses' : 'drawings use'} an older storage format. They upgrade when opened, or all at once now.
+              </span>
+              <button
+                onClick={handleMigrateAll}
+                disabled={isMigrating}
+                className="shrink-0 px-4 py-1.5 rounded-full text-xs font-bold bg-amber-500/20 hover:bg-amber-500/30 disabled:opacity-50 transition-all active:scale-95"
+              >
+                {isMigrating ? 'Upgrading...' : 'Upgrade all'}
+              </button>
             </div>
+          )}
+
+          {isTrashOpen ? (
+            <TrashView
+              items={trash}
+              retentionDays={trashRetentionDays}
+              onRestore={onRestore}
+              onPurge={onPurge}
+              onEmptyTrash={onEmptyTrash}
+              onBack={() => setIsTrashOpen(false)}
+            />
           ) : (
-            <div className="flex flex-col items-center justify-center py-32 text-center animate-in fade-in slide-in-from-bottom-4 duration-700">
-              <div className="w-24 h-24 rounded-3xl bg-black/[0.03] dark:bg-white/[0.03] flex items-center justify-center mb-6">
-                <svg width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="text-[var(--text-dim)]">
-                  <path d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                </svg>
-              </div>
-              <h3 className="text-xl font-semibold text-[var(--text-main)] mb-2">No Drawings Found</h3>
-              <p className="text-[var(--text-dim)] max-w-xs mx-auto mb-8 font-medium">
-                {searchQuery || selectedTag ? 'Try another search term or clear filters.' : 'Start creating your first amazing drawing!'}
-              </p>
-              {!searchQuery && !selectedTag && (
-                <button
-                  onClick={() => setIsCreateOpen(true)}
-                  className="px-8 py-3 bg-[#0071e3] text-white rounded-full font-bold hover:bg-[#0077ed] transition-all shadow-lg shadow-blue-500/20 active:scale-95"
-                >
-                  Create New Drawing
-                </button>
+            <>
+              <TagFilterBar
+                allTags={allTags}
+                selectedTag={selectedTag}
+                setSelectedTag={setSelectedTag}
+              />
+
+              {filteredDrawings.length > 0 ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8 mt-8 pb-12">
+                  {filteredDrawings.map((drawing) => (
+                    <DrawingCard
+                      key={drawing.id}
+                      drawing={drawing}
+                      onOpen={onOpen}
+                      onUpdate={onUpdate}
+                      onDelete={onDelete}
+                      onExport={sceneFiles.exportDrawing}
+                      onExportPdf={sceneFiles.exportPdf}
+                      isEditingTag={editingTagsId === drawing.id}
+                      setIsEditingTag={(isEditing) => setEditingTagsId(isEditing ? drawing.id : null)}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center py-32 text-center animate-in fade-in slide-in-from-bottom-4 duration-700">
+                  <div className="w-24 h-24 rounded-3xl bg-black/[0.03] dark:bg-white/[0.03] flex items-center justify-center mb-6">
+                    <svg width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="text-[var(--text-dim)]">
+                      <path d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                    </svg>
+                  </div>
+                  <h3 className="text-xl font-semibold text-[var(--text-main)] mb-2">No Drawings Found</h3>
+                  <p className="text-[var(--text-dim)] max-w-xs mx-auto mb-8 font-medium">
+                    {searchQuery || selectedTag ? 'Try another search term or clear filters.' : 'Start creating your first amazing drawing!'}
+                  </p>
+                  {!searchQuery && !selectedTag && (
+                    <button
+                      onClick={openCreateDialog}
+                      className="px-8 py-3 bg-[#0071e3] text-white rounded-full font-bold hover:bg-[#0077ed] transition-all shadow-lg shadow-blue-500/20 active:scale-95"
+                    >
+                      Create New Drawing
+                    </button>
+                  )}
+                </div>
               )}
-            </div>
+            </>
           )}
         </div>
       </main>
@@ -113,6 +277,14 @@ export function Dashboard({ drawings, onOpen, onCreate, onUpdate, onDelete, onCl
         onCreate={handleCreate}
       />
 
+      {library.pendingImport && (
+        <ImportLibraryDialog
+          pending={library.pendingImport}
+          onImport={(mode) => library.importLibrary(library.pendingImport!.backup, mode)}
+          onCancel={library.cancelImport}
+        />
+      )}
+
       {/* Floating Close Button for Dashboard */}
       <button
         onClick={(e) => {
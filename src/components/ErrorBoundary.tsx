@@ -1,5 +1,7 @@
 import React, { Component, ReactNode } from 'react'
 import { logger } from '../lib/logger'
+import { applyDraft, findRecoverableDrafts } from '../lib/drafts'
+import type { RecoverableDraft } from '../lib/drafts'
 
 interface Props {
     children: ReactNode
@@ -11,6 +13,8 @@ interface State {
     hasError: boolean
     error?: Error
     errorInfo?: React.ErrorInfo
+    drafts?: RecoverableDraft[]  // unsaved edits that survived the crash
+    isRestoring?: boolean
 }
 
 /**
@@ -35,10 +39,29 @@ export class ErrorBoundary extends Component<Props, State> {
 
         // Call custom error handler if provided
         this.props.onError?.(error, errorInfo)
+
+        findRecoverableDrafts()
+            .then((drafts) => this.setState({ drafts }))
+            .catch((e) => logger.error('Failed to look up recovery drafts:', e))
+    }
+
+    /**
+     * Save every recovered draft over its drawing, then reload
+     */
+    handleRestoreDrafts = async () => {
+        this.setState({ isRestoring: true })
+        for (const draft of this.state.drafts ?? []) {
+            try {
+                await applyDraft(draft)
+            } catch (e) {
+                logger.error('Failed to restore draft:', draft.drawingId, e)
+            }
+        }
+        window.location.reload()
     }
 
     handleReset = () => {
-        this.setState({ hasError: false, error: undefined, errorInfo: undefined })
+        this.setState({ hasError: false, error: undefined, errorInfo: undefined, drafts: undefined })
     }
 
     handleReload = () => {
@@ -96,6 +119,25 @@ export class ErrorBoundary extends Component<Props, State> {
                             </details>
                         )}
 
+                        {/* Recovery drafts */}
+                        {this.state.drafts && this.state.drafts.length > 0 && (
+                            <div className={`mt-4 text-left p-4 rounded-lg ${isDark ? 'bg-amber-500/10 text-amber-300' : 'bg-amber-50 text-amber-800'}`}>
+                                <p className="text-sm font-medium mb-1">发现未保存的修改:</p>
+                                <ul className="text-xs list-disc pl-4">
+                                    {this.state.drafts.map((draft) => (
+                                        <li key={draft.drawingId}>{draft.name}</li>
+                                    ))}
+                                </ul>
+                                <button
+                                    onClick={this.handleRestoreDrafts}
+                                    disabled={this.state.isRestoring}
+                                    className="mt-3 w-full px-4 py-2 rounded-lg text-sm font-medium bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50 transition-all"
+                                >
+                                    {this.state.isRestoring ? '正在恢复...' : '恢复草稿并刷新'}
+                                </button>
+                            </div>
+                        )}
+
                         {/* Action Buttons */}
                         <div className="flex gap-3 justify-center mt-6">
                             <button
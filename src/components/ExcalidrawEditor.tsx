@@ -1,13 +1,32 @@
 import { useCallback, useState, useRef, useEffect } from 'react'
-import { Excalidraw, WelcomeScreen } from '@excalidraw/excalidraw'
+import { Excalidraw, FONT_FAMILY, WelcomeScreen } from '@excalidraw/excalidraw'
 
 import { useExcalidraw } from '../hooks/useExcalidraw'
+import { useDrawingHistory } from '../hooks/useDrawingHistory'
+import { usePresentation } from '../hooks/usePresentation'
+import { useShapeLibrary } from '../hooks/useShapeLibrary'
+import { useSettings } from '../hooks/useSettings'
 import { cn } from '../lib/utils'
 import { logger } from '../lib/logger'
 import { copyDrawingReference, insertDrawingToToday } from '../lib/plugin'
+import { registerFlushHandler } from '../lib/exitGuard'
+import { clearDraft, isDraftNewer, readDraft } from '../lib/drafts'
+import { savedViewToggles } from '../lib/viewState'
+import { copyImage, DEFAULT_EXPORT_OPTIONS, downloadImage } from '../lib/exportImage'
+import type { ExportFormat, ExportFrame, ImageExportOptions } from '../lib/exportImage'
+import { exportToAssets, setLinkedExport } from '../lib/assetExport'
+import { drawingStore } from '../lib/store'
+import type { Draft } from '../lib/drafts'
+import { getShapeLibraryTag } from '../lib/settings'
+import type { FontChoice } from '../lib/settings'
 import type { ExcalidrawEditorProps } from '../types'
 import { EditorHeader } from './editor/EditorHeader'
-import { TagEditorPopover } from './editor/TagEditorPopover'
+import { HistoryPanel } from './editor/HistoryPanel'
+import { UnsavedChangesDialog } from './editor/UnsavedChangesDialog'
+import { DraftRecoveryBanner } from './editor/DraftRecoveryBanner'
+import { ExportDialog } from './editor/ExportDialog'
+import { PresentationOverlay } from './editor/PresentationOverlay'
+import type { UnsavedChoice } from './editor/UnsavedChangesDialog'
 
 // ========================================
 // FONT REGISTRATION (JavaScript FontFace API)
@@ -19,24 +38,54 @@ import { TagEditorPopover } from './editor/TagEditorPopover'
 const VIRGIL_LOCAL_URL = '/fonts/Virgil.woff2';
 const XIAOLAI_LOCAL_URL = '/fonts/Xiaolai.woff2';
 
+const FONT_FAMILIES: Record<FontChoice, number> = {
+  'hand-drawn': FONT_FAMILY.Virgil,
+  normal: FONT_FAMILY.Helvetica,
+  code: FONT_FAMILY.Cascadia,
+}
+
 export function ExcalidrawEditor({
   drawing,
   mode,
   theme,
   onSave,
+  onRestoreSnapshot,
+  onForkSnapshot,
   onBack,
   onModeChange,
   onClose
 }: ExcalidrawEditorProps) {
   const [currentTags, setCurrentTags] = useState<string[]>(drawing.tags || [])
-  const [isSaving, setIsSaving] = useState(false)
   const [isJustSaved, setIsJustSaved] = useState(false)
   const [isTagMenuOpen, setIsTagMenuOpen] = useState(false)
   const [fontsLoaded, setFontsLoaded] = useState(false) // BLOCKING STATE
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const history = useDrawingHistory(drawing.id, isHistoryOpen)
+  const settings = useSettings()
+  const fontFamily = FONT_FAMILIES[settings.defaultFont]
+
+  // Canvas State: as the drawing was last saved, else the defaults
+  const [initialToggles] = useState(() => savedViewToggles(drawing.data.appState, {
+    zenModeEnabled: settings.defaultZenMode,
+    gridModeEnabled: settings.defaultGridMode,
+  }))
+  const [zenModeEnabled, setZenModeEnabled] = useState(initialToggles.zenModeEnabled)
+  const [gridModeEnabled, setGridModeEnabled] = useState(initialToggles.gridModeEnabled)
+
+  // Follow the defaults when they change while the editor is open
+  const defaultZenModeRef = useRef(settings.defaultZenMode)
+  useEffect(() => {
+    if (defaultZenModeRef.current === settings.defaultZenMode) return
+    defaultZenModeRef.current = settings.defaultZenMode
+    setZenModeEnabled(settings.defaultZenMode)
+  }, [settings.defaultZenMode])
 
-  // Canvas State
-  const [zenModeEnabled, setZenModeEnabled] = useState(false)
-  const [gridModeEnabled, setGridModeEnabled] = useState(false)
+  const defaultGridModeRef = useRef(settings.defaultGridMode)
+  useEffect(() => {
+    if (defaultGridModeRef.current === settings.defaultGridMode) return
+    defaultGridModeRef.current = settings.defaultGridMode
+    setGridModeEnabled(settings.defaultGridMode)
+  }, [settings.defaultGridMode])
 
   const tagsRef = useRef<string[]>(currentTags)
 
@@ -84,40 +133,44 @@ export function ExcalidrawEditor({
     loadFonts();
   }, []);
 
-  // Block rendering until fonts are ready to prevent "Canvas Race Condition"
-  if (!fontsLoaded) {
-    return (
-      <div className="flex items-center justify-center h-screen w-full bg-white dark:bg-zinc-900">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white" />
-      </div>
-    );
-  }
-
-
   const {
     setExcalidrawAPI,
     handleChange,
+    hasUnsavedView,
+    saveView,
     saveNow,
-    downloadImage,
-    isDirty
+    loadScene,
+    restoreDraft,
+    discardDraft,
+    exportImage,
+    getExportTargets,
+    getExcalidrawAPI,
+    downloadScene,
+    exportPdf,
+    isDirty,
+    isSaving,
+    saveStatus,
+    retrySave
   } = useExcalidraw({
     drawing,
-    onSave: async (data) => {
-      setIsSaving(true)
-      try {
-        const result = await onSave(data)
-        if (result) {
-          setIsJustSaved(true)
-          setTimeout(() => setIsJustSaved(false), 2000)
-        }
-        return result
-      } finally {
-        setIsSaving(false)
-      }
-    },
+    autoSaveInterval: settings.autoSaveSeconds * 1000,
+    defaultFontFamily: fontFamily,
+    onSave,
     tagsRef
   })
 
+  // The library is picked when the drawing opens; retagging applies next time
+  const [libraryTag] = useState(() => getShapeLibraryTag(settings, drawing.tags ?? []))
+  const shapes = useShapeLibrary(libraryTag)
+
+  // Flash the success state briefly after each completed save
+  useEffect(() => {
+    if (saveStatus.state !== 'saved') return
+    setIsJustSaved(true)
+    const timer = setTimeout(() => setIsJustSaved(false), 2000)
+    return () => clearTimeout(timer)
+  }, [saveStatus])
+
   const handleCopyRef = useCallback(() => {
     copyDrawingReference(drawing.id, drawing.name)
   }, [drawing.id, drawing.name])
@@ -126,19 +179,201 @@ export function ExcalidrawEditor({
     await insertDrawingToToday(drawing.id, drawing.name)
   }, [drawing.id, drawing.name])
 
+  // Export dialog; choices are kept for the next export from this editor
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportOptions, setExportOptions] = useState<ImageExportOptions>(DEFAULT_EXPORT_OPTIONS)
+  const [exportTargets, setExportTargets] = useState<{ frames: ExportFrame[]; hasSelection: boolean }>({
+    frames: [],
+    hasSelection: false,
+  })
+  const [linkedFormat, setLinkedFormat] = useState<ExportFormat | null>(null)
+
   const handleExport = useCallback(async () => {
-    await downloadImage(drawing.name)
-  }, [downloadImage, drawing.name])
+    setExportTargets(getExportTargets())
+    const meta = await drawingStore.getMeta(drawing.id)
+    setLinkedFormat(meta?.linkedExport ?? null)
+    setIsExportOpen(true)
+  }, [getExportTargets, drawing.id])
+
+  const runExport = useCallback(async (options: ImageExportOptions, action: 'download' | 'copy') => {
+    setIsExporting(true)
+    try {
+      const blob = await exportImage(options)
+      if (!blob) return
+      if (action === 'copy') {
+        await copyImage(blob, options.format)
+        logseq.UI.showMsg('Image copied to clipboard', 'success')
+      } else {
+        downloadImage(blob, drawing.name, options.format)
+      }
+      setIsExportOpen(false)
+    } catch (error) {
+      logger.error('Image export failed:', error)
+      logseq.UI.showMsg(`Export failed: ${error instanceof Error ? error.message : String(error)}`, 'error')
+    } finally {
+      setIsExporting(false)
+    }
+  }, [exportImage, drawing.name])
+
+  const handleExportToAssets = useCallback(async (format: ExportFormat, linked: boolean) => {
+    setIsExporting(true)
+    try {
+      // The asset shows the saved drawing, so save the canvas first
+      if (isDirty && !(await saveNow())) throw new Error('the drawing could not be saved')
+      const stored = await drawingStore.get(drawing.id)
+      if (!stored) throw new Error('the drawing was not found')
+
+      const changed = await exportToAssets(stored, format)
+      const nextLinked = linked ? format : null
+      if (nextLinked !== linkedFormat) await setLinkedExport(drawing.id, nextLinked)
+
+      logseq.UI.showMsg(
+        changed > 0 ? `Exported to assets, ${changed} image block(s) added or updated` : 'Exported to assets',
+        'success'
+      )
+      setIsExportOpen(false)
+    } catch (error) {
+      logger.error('Export to assets failed:', error)
+      logseq.UI.showMsg(`Export failed: ${error instanceof Error ? error.message : String(error)}`, 'error')
+    } finally {
+      setIsExporting(false)
+    }
+  }, [isDirty, saveNow, drawing.id, linkedFormat])
+
+  // Presenting: frames become slides, shown full screen one at a time
+  const presentation = usePresentation(getExcalidrawAPI, mode === 'present')
+
+  const handlePresent = useCallback(() => {
+    if (getExportTargets().frames.length === 0) {
+      logseq.UI.showMsg('Add frames to the drawing to present it as slides', 'warning')
+      return
+    }
+    onModeChange('present')
+  }, [getExportTargets, onModeChange])
+
+  const handleEndPresentation = useCallback(() => {
+    onModeChange('edit')
+  }, [onModeChange])
+
+  const handleExportScene = useCallback(async () => {
+    await downloadScene(drawing.name)
+  }, [downloadScene, drawing.name])
+
+  const handleExportPdf = useCallback(async () => {
+    await exportPdf(drawing.name)
+  }, [exportPdf, drawing.name])
 
   const handleSaveNow = useCallback(async () => {
     logger.debug('[Excalidraw] Manual save triggered')
     await saveNow()
   }, [saveNow])
 
+  const handleRestoreSnapshot = useCallback(async (snapshotId: string) => {
+    // Keep unsaved edits in history before replacing them
+    if (isDirty) await saveNow()
+    const restored = await onRestoreSnapshot(snapshotId)
+    if (restored) {
+      await loadScene(restored)
+      logseq.UI.showMsg('Version restored', 'success')
+    } else {
+      logseq.UI.showMsg('Failed to restore version', 'error')
+    }
+  }, [isDirty, saveNow, onRestoreSnapshot, loadScene])
+
+  const handleForkSnapshot = useCallback(async (snapshotId: string) => {
+    if (isDirty) await saveNow()
+    const forked = await onForkSnapshot(snapshotId)
+    if (!forked) {
+      logseq.UI.showMsg('Failed to copy version', 'error')
+    }
+  }, [isDirty, saveNow, onForkSnapshot])
+
+  // Save-before-exit: every way out of the editor flushes through here first
+  const hasPendingRef = useRef(false)
+  hasPendingRef.current = isDirty || currentTags.join('\n') !== (drawing.tags ?? []).join('\n')
+  const [isUnsavedPromptOpen, setIsUnsavedPromptOpen] = useState(false)
+  const unsavedChoiceRef = useRef<((choice: UnsavedChoice) => void) | null>(null)
+
+  const handleUnsavedChoice = useCallback((choice: UnsavedChoice) => {
+    setIsUnsavedPromptOpen(false)
+    unsavedChoiceRef.current?.(choice)
+    unsavedChoiceRef.current = null
+  }, [])
+
+  useEffect(() => {
+    const unregister = registerFlushHandler({
+      isDirty: () => hasPendingRef.current || hasUnsavedView(),
+      flush: async (interactive) => {
+        // Only the viewport moved: worth keeping, not worth holding up the exit
+        if (!hasPendingRef.current) {
+          await saveView()
+          return true
+        }
+        // Ask again after each failed retry until the user saves or decides
+        while (!(await saveNow())) {
+          if (!interactive) return false
+          // The exit may have started while the UI was hidden
+          logseq.showMainUI({ autoFocus: true })
+          const choice = await new Promise<UnsavedChoice>((resolve) => {
+            unsavedChoiceRef.current = resolve
+            setIsUnsavedPromptOpen(true)
+          })
+          if (choice === 'discard') {
+            discardDraft()
+            return true
+          }
+          if (choice === 'stay') return false
+        }
+        return true
+      },
+    })
+    return () => {
+      unregister()
+      // An exit still waiting on the prompt must not proceed
+      unsavedChoiceRef.current?.('stay')
+      unsavedChoiceRef.current = null
+    }
+  }, [saveNow, saveView, hasUnsavedView, discardDraft])
+
+  // A draft left by a crash or reload, newer than what was saved
+  const [recoveredDraft, setRecoveredDraft] = useState<Draft | null>(null)
+
+  // Checked once per open; later saves clear the draft themselves
+  useEffect(() => {
+    const draft = readDraft(drawing.id)
+    if (!draft) return
+    if (isDraftNewer(draft, drawing.updatedAt)) {
+      setRecoveredDraft(draft)
+    } else {
+      clearDraft(drawing.id)
+    }
+  }, [drawing.id])
+
+  const handleRestoreDraft = useCallback(() => {
+    if (recoveredDraft) restoreDraft(recoveredDraft)
+    setRecoveredDraft(null)
+  }, [recoveredDraft, restoreDraft])
+
+  const handleDiscardDraft = useCallback(() => {
+    discardDraft()
+    setRecoveredDraft(null)
+  }, [discardDraft])
+
   const handleUpdateTags = useCallback((newTags: string[]) => {
     setCurrentTags(newTags)
   }, [])
 
+  // Block rendering until fonts are ready to prevent "Canvas Race Condition"
+  // Every hook runs above this, so the hook count never changes
+  if (!fontsLoaded) {
+    return (
+      <div className="flex items-center justify-center h-screen w-full bg-white dark:bg-zinc-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 dark:border-white" />
+      </div>
+    );
+  }
+
   return (
     <div
       className="fixed inset-0 z-50 bg-[var(--bg-app)] flex flex-col font-sans overflow-hidden animate-in fade-in duration-300"
@@ -149,17 +384,22 @@ export function ExcalidrawEditor({
         setIsTagMenuOpen(false)
       }}
     >
-      <EditorHeader
+      {mode !== 'present' && <EditorHeader
         drawingName={drawing.name}
         mode={mode}
         onBack={onBack}
         onSaveNow={handleSaveNow}
         isSaving={isSaving || isJustSaved}
         isJustSaved={isJustSaved}
+        saveStatus={saveStatus}
+        onRetrySave={retrySave}
         onCopyRef={handleCopyRef}
         onInsertJournal={handleInsertToJournal}
         onExport={handleExport}
+        onExportScene={handleExportScene}
+        onExportPdf={handleExportPdf}
         onModeChange={onModeChange}
+        onPresent={handlePresent}
         currentTags={currentTags}
         onUpdateTags={handleUpdateTags}
         isTagMenuOpen={isTagMenuOpen}
@@ -171,7 +411,9 @@ export function ExcalidrawEditor({
         onZenModeChange={setZenModeEnabled}
         gridModeEnabled={gridModeEnabled}
         onGridModeChange={setGridModeEnabled}
-      />
+        isHistoryOpen={isHistoryOpen}
+        onToggleHistory={() => setIsHistoryOpen(!isHistoryOpen)}
+      />}
 
       <main className="flex-1 relative bg-white dark:bg-[#121212]">
         <div className={cn(
@@ -181,10 +423,19 @@ export function ExcalidrawEditor({
           <Excalidraw
             excalidrawAPI={setExcalidrawAPI}
             onChange={handleChange}
-            initialData={drawing.data || undefined}
+            onLibraryChange={shapes.handleLibraryChange}
+            initialData={drawing.data ? {
+              ...drawing.data,
+              libraryItems: shapes.initialItems,
+              appState: {
+                // The default font only applies until the drawing has its own
+                currentItemFontFamily: fontFamily,
+                ...drawing.data.appState,
+              },
+            } : undefined}
             theme={theme}
-            langCode="en"
-            viewModeEnabled={mode === 'preview'}
+            langCode={settings.language}
+            viewModeEnabled={mode !== 'edit'}
             zenModeEnabled={zenModeEnabled}
             gridModeEnabled={gridModeEnabled}
             UIOptions={{
@@ -205,13 +456,86 @@ export function ExcalidrawEditor({
           </Excalidraw>
         </div>
 
+        {recoveredDraft && mode === 'edit' && (
+          <DraftRecoveryBanner
+            savedAt={recoveredDraft.savedAt}
+            onRestore={handleRestoreDraft}
+            onDiscard={handleDiscardDraft}
+          />
+        )}
+
+        {isUnsavedPromptOpen && (
+          <UnsavedChangesDialog
+            drawingName={drawing.name}
+            onChoose={handleUnsavedChoice}
+          />
+        )}
+
+        {isExportOpen && (
+          <ExportDialog
+            drawingName={drawing.name}
+            options={exportOptions}
+            frames={exportTargets.frames}
+            hasSelection={exportTargets.hasSelection}
+            isExporting={isExporting}
+            linkedExport={linkedFormat}
+            onChange={setExportOptions}
+            onDownload={(options) => runExport(options, 'download')}
+            onCopy={(options) => runExport(options, 'copy')}
+            onExportToAssets={handleExportToAssets}
+            onClose={() => setIsExportOpen(false)}
+          />
+        )}
+
+        {mode === 'present' && (
+          <PresentationOverlay
+            slides={presentation.slides}
+            index={presentation.index}
+            isOverviewOpen={presentation.isOverviewOpen}
+            isLaserOn={presentation.isLaserOn}
+            onNext={presentation.next}
+            onPrev={presentation.prev}
+            onGoTo={presentation.goTo}
+            onToggleOverview={presentation.toggleOverview}
+            onToggleLaser={presentation.toggleLaser}
+            loadPreview={presentation.loadPreview}
+            onExit={handleEndPresentation}
+          />
+        )}
+
+        {isHistoryOpen && mode !== 'present' && (
+          <HistoryPanel
+            snapshots={history.snapshots}
+            isLoading={history.isLoading}
+            loadThumbnail={history.loadThumbnail}
+            onRestore={handleRestoreSnapshot}
+            onFork={handleForkSnapshot}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        )}
+
         {/* Floating Save Status Mobile-style (Bottom) */}
-        {(isSaving || isJustSaved) && (
+        {(isSaving || isJustSaved || saveStatus.state === 'failed') && (
           <div className={cn(
             "absolute bottom-8 left-1/2 -translate-x-1/2 px-4 py-2 backdrop-blur-md text-white text-xs font-bold rounded-full shadow-2xl flex items-center gap-2 animate-in slide-in-from-bottom-4 duration-300",
-            isJustSaved ? "bg-emerald-600" : "bg-black/80"
+            saveStatus.state === 'failed' ? "bg-red-600" : isJustSaved ? "bg-emerald-600" : "bg-black/80"
           )}>
-            {isJustSaved ? (
+            {saveStatus.state === 'failed' ? (
+              <>
+                Save failed: {saveStatus.error}
+                <button
+                  onClick={retrySave}
+                  className="ml-1 px-2.5 py-0.5 rounded-full bg-white/20 hover:bg-white/30 transition-colors"
+                >
+                  Retry
+                </button>
+              </>
+            ) : saveStatus.state === 'retrying' ? (
+              <>
+                <div className="w-2 h-2 rounded-full bg-red-400 animate-pulse" />
+                Save failed, retrying (attempt {saveStatus.attempt + 1})...
+              </>
+            ) : isJustSaved ? (
               <>
                 <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
                   <polyline points="20 6 9 17 4 12" />
@@ -0,0 +1,176 @@
+import { useState } from 'react'
+import { useLegacyImport } from '../hooks/useLegacyImport'
+import { cn } from '../lib/utils'
+
+interface LegacyImportViewProps {
+  onBack: () => void
+  onClose: () => void
+}
+
+export function LegacyImportView({ onBack, onClose }: LegacyImportViewProps) {
+  const { candidates, selected, existingNames, result, isBusy, scan, toggle, runImport, reset } = useLegacyImport()
+  const [rewriteReferences, setRewriteReferences] = useState(true)
+
+  const referenceCount = candidates
+    ?.filter((c) => selected.has(c.path))
+    .reduce((sum, c) => sum + c.references.length, 0) ?? 0
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#f5f5f7] dark:bg-[#000000] flex flex-col font-sans overflow-hidden">
+      <header className="sticky top-0 z-40 bg-[var(--bg-app)]/80 backdrop-blur-xl border-b border-black/[0.04] dark:border-white/[0.06] px-8 py-6">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="p-1.5 rounded-lg hover:bg-black/5 dark:hover:bg-white/10 text-[var(--text-dim)] hover:text-[var(--text-main)] transition-all active:scale-95"
+              title="Back to Dashboard"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M19 12H5M12 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-extrabold tracking-tight text-[var(--text-main)] leading-none mb-1">Import from File Graph</h1>
+              <p className="text-[var(--text-dim)] font-bold text-xs uppercase tracking-wider opacity-60">
+                {candidates
+                  ? `${candidates.length} file(s) found · ${selected.size} selected`
+                  : 'Drawings from the file-based Excalidraw plugin'}
+              </p>
+            </div>
+          </div>
+          <label
+            className={cn(
+              'px-5 py-2 bg-[#0071e3] hover:bg-[#0077ed] text-white rounded-full text-sm font-bold transition-all shadow-lg shadow-blue-500/20 active:scale-95 cursor-pointer',
+              isBusy && 'opacity-50 pointer-events-none'
+            )}
+          >
+            {isBusy ? 'Working...' : candidates ? 'Choose another folder' : 'Choose folder'}
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              // Not in React's input typings; lets the picker select a whole folder
+              ref={(el) => el?.setAttribute('webkitdirectory', '')}
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? [])
+                e.target.value = ''
+                if (files.length > 0) scan(files)
+              }}
+            />
+          </label>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-8 py-8">
+        <div className="max-w-4xl mx-auto space-y-6 pb-12">
+          {!candidates && !result && (
+            <section className="bg-[var(--bg-app)] rounded-3xl border border-black/[0.04] dark:border-white/[0.06] p-6 text-sm text-[var(--text-dim)] space-y-2">
+              <p>
+                Pick the <code className="px-1 rounded bg-black/5 dark:bg-white/10">draws/</code> or assets folder of the old graph.
+                Every <code className="px-1 rounded bg-black/5 dark:bg-white/10">.excalidraw</code> file in it becomes a drawing here.
+              </p>
+              <p>
+                Blocks in this graph that still point at those files, through the old renderer macro or a file link, are rewritten to reference the new drawing.
+              </p>
+            </section>
+          )}
+
+          {result && (
+            <section className="bg-[var(--bg-app)] rounded-3xl border border-black/[0.04] dark:border-white/[0.06] p-6">
+              <h2 className="text-base font-bold text-[var(--text-main)]">Import finished</h2>
+              <p className="text-sm text-[var(--text-dim)] mt-1">
+                {result.imported} drawing(s) imported, {result.rewritten} block reference(s) updated.
+              </p>
+              {result.failed.length > 0 && (
+                <ul className="mt-3 text-xs text-red-600 dark:text-red-400 space-y-1">
+                  {result.failed.map((path) => (
+                    <li key={path}>Could not import {path}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2 mt-5">
+                <button
+                  onClick={onBack}
+                  className="px-4 py-1.5 rounded-full text-xs font-bold bg-blue-500/10 text-blue-600 dark:text-blue-400 hover:bg-blue-500/20 transition-all active:scale-95"
+                >
+                  Open Dashboard
+                </button>
+                <button
+                  onClick={reset}
+                  className="px-4 py-1.5 rounded-full text-xs font-bold bg-black/5 dark:bg-white/5 text-[var(--text-dim)] hover:text-[var(--text-main)] transition-all active:scale-95"
+                >
+                  Import another folder
+                </button>
+              </div>
+            </section>
+          )}
+
+          {candidates && candidates.length > 0 && (
+            <section className="bg-[var(--bg-app)] rounded-3xl border border-black/[0.04] dark:border-white/[0.06] p-6">
+              <ul className="divide-y divide-black/[0.04] dark:divide-white/[0.06]">
+                {candidates.map((candidate) => (
+                  <li key={candidate.path}>
+                    <label className="flex items-center gap-3 py-2.5 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(candidate.path)}
+                        onChange={() => toggle(candidate.path)}
+                        className="accent-blue-600"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="text-sm font-semibold text-[var(--text-main)] truncate">{candidate.name}</div>
+                        <div className="text-xs text-[var(--text-dim)] truncate">{candidate.path}</div>
+                      </div>
+                      {existingNames.has(candidate.name) && (
+                        <span className="shrink-0 px-2 py-0.5 rounded-full text-[10px] font-bold bg-amber-500/10 text-amber-700 dark:text-amber-400">
+                          Already in library
+                        </span>
+                      )}
+                      <span className="shrink-0 text-xs text-[var(--text-dim)]">
+                        {candidate.references.length} reference(s)
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex items-center justify-between gap-4 mt-5 pt-5 border-t border-black/[0.04] dark:border-white/[0.06]">
+                <label className="flex items-center gap-2 text-sm text-[var(--text-main)] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={rewriteReferences}
+                    onChange={(e) => setRewriteReferences(e.target.checked)}
+                    className="accent-blue-600"
+                  />
+                  Rewrite {referenceCount} block reference(s)
+                </label>
+                <button
+                  onClick={() => runImport(rewriteReferences)}
+                  disabled={isBusy || selected.size === 0}
+                  className="px-5 py-2 bg-[#0071e3] hover:bg-[#0077ed] disabled:opacity-50 text-white rounded-full text-sm font-bold transition-all shadow-lg shadow-blue-500/20 active:scale-95"
+                >
+                  Import {selected.size} drawing(s)
+                </button>
+              </div>
+            </section>
+          )}
+        </div>
+      </main>
+
+      <button
+        onClick={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          onClose()
+        }}
+        className="fixed top-6 right-6 z-50 p-2.5 rounded-full bg-black/5 dark:bg-white/10 hover:bg-black/10 dark:hover:bg-white/20 text-[var(--text-main)] transition-all backdrop-blur-md active:scale-90 shadow-sm"
+        title="Close"
+      >
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+          <line x1="18" y1="6" x2="6" y2="18" />
+          <line x1="6" y1="6" x2="18" y2="18" />
+        </svg>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+import { useLibraryRepair } from '../hooks/useLibraryRepair'
+import { formatDate } from '../lib/utils'
+import type { IntegrityIssue, IntegrityIssueKind } from '../lib/store'
+
+interface RepairViewProps {
+  onBack: () => void
+  onClose: () => void
+}
+
+const SECTIONS: Array<{ kind: IntegrityIssueKind; title: string; description: string }> = [
+  {
+    kind: 'orphan',
+    title: 'Orphaned drawings',
+    description: 'Stored drawings the index does not list. They are hidden from the dashboard.',
+  },
+  {
+    kind: 'missing',
+    title: 'Missing drawings',
+    description: 'Index entries whose drawing data no longer exists.',
+  },
+  {
+    kind: 'corrupt',
+    title: 'Corrupt drawings',
+    description: 'Drawing data that cannot be parsed. Quarantining keeps the raw data and version history aside.',
+  },
+  {
+    kind: 'invalid-elements',
+    title: 'Invalid elements',
+    description: 'Drawings containing elements Excalidraw may fail to render. Dropping them keeps the rest of the drawing.',
+  },
+]
+
+function describeIssue(issue: IntegrityIssue): string {
+  switch (issue.kind) {
+    case 'corrupt':
+      return issue.error
+    case 'invalid-elements':
+      return `${issue.invalidCount} of ${issue.totalCount} elements invalid`
+    default:
+      return issue.id
+  }
+}
+
+export function RepairView({ onBack, onClose }: RepairViewProps) {
+  const { report, isBusy, scan, reindexOrphans, quarantine, dropInvalidElements, removeMissing } = useLibraryRepair()
+
+  const actionFor = (kind: IntegrityIssueKind) => {
+    switch (kind) {
+      case 'orphan':
+        return { label: 'Re-index', run: reindexOrphans }
+      case 'missing':
+        return { label: 'Remove entry', run: removeMissing }
+      case 'invalid-elements':
+        return { label: 'Drop invalid elements', run: dropInvalidElements }
+      default:
+        return { label: 'Quarantine', run: quarantine }
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#f5f5f7] dark:bg-[#000000] flex flex-col font-sans overflow-hidden">
+      <header className="sticky top-0 z-40 bg-[var(--bg-app)]/80 backdrop-blur-xl border-b border-black/[0.04] dark:border-white/[0.06] px-8 py-6">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="p-1.5 rounded-lg hover:bg-black/5 dark:hover:bg-white/10 text-[var(--text-dim)] hover:text-[var(--text-main)] transition-all active:scale-95"
+              title="Back to Dashboard"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M19 12H5M12 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-extrabold tracking-tight text-[var(--text-main)] leading-none mb-1">Repair Library</h1>
+              <p className="text-[var(--text-dim)] font-bold text-xs uppercase tracking-wider opacity-60">
+                {report
+                  ? `${report.indexedCount} indexed · ${report.storedCount} stored · scanned ${formatDate(report.scannedAt)}`
+                  : 'Scanning...'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={scan}
+            disabled={isBusy}
+            className="px-5 py-2 bg-[#0071e3] hover:bg-[#0077ed] disabled:opacity-50 text-white rounded-full text-sm font-bold transition-all shadow-lg shadow-blue-500/20 active:scale-95"
+          >
+            {isBusy ? 'Working...' : 'Scan again'}
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-8 py-8">
+        <div className="max-w-4xl mx-auto space-y-6 pb-12">
+          {report && report.issues.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-24 text-center">
+              <div className="w-20 h-20 rounded-3xl bg-emerald-500/10 flex items-center justify-center mb-6 text-emerald-600">
+                <svg width="36" height="36" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                  <polyline points="20 6 9 17 4 12" />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-[var(--text-main)] mb-2">Library is healthy</h3>
+              <p className="text-[var(--text-dim)] font-medium">The index and stored drawings match.</p>
+            </div>
+          )}
+
+          {report && SECTIONS.map(({ kind, title, description }) => {
+            const issues = report.issues.filter((issue) => issue.kind === kind)
+            if (issues.length === 0) return null
+            const action = actionFor(kind)
+
+            return (
+              <section key={kind} className="bg-[var(--bg-app)] rounded-3xl border border-black/[0.04] dark:border-white/[0.06] p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h2 className="text-base font-bold text-[var(--text-main)]">{title} ({issues.length})</h2>
+                    <p className="text-sm text-[var(--text-dim)] mt-1">{description}</p>
+                  </div>
+                  <button
+                    onClick={() => action.run(issues.map((issue) => issue.id))}
+                    disabled={isBusy}
+                    className="shrink-0 px-4 py-1.5 rounded-full text-xs font-bold bg-blue-500/10 text-blue-600 dark:text-blue-400 hover:bg-blue-500/20 disabled:opacity-50 transition-all active:scale-95"
+                  >
+                    {action.label} all
+                  </button>
+                </div>
+                <ul className="divide-y divide-black/[0.04] dark:divide-white/[0.06]">
+                  {issues.map((issue) => (
+                    <li key={issue.id} className="flex items-center justify-between gap-4 py-2.5">
+                      <div className="min-w-0">
+                        <div className="text-sm font-semibold text-[var(--text-main)] truncate">{issue.name || 'Untitled'}</div>
+                        <div className="text-xs text-[var(--text-dim)] truncate">{describeIssue(issue)}</div>
+                      </div>
+                      <button
+                        onClick={() => action.run([issue.id])}
+                        disabled={isBusy}
+                        className="shrink-0 px-3 py-1 rounded-full text-[11px] font-bold bg-black/5 dark:bg-white/5 text-[var(--text-dim)] hover:text-[var(--text-main)] disabled:opacity-50 transition-all active:scale-95"
+                      >
+                        {action.label}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )
+          })}
+
+          {report && report.quarantined.length > 0 && (
+            <p className="text-xs text-[var(--text-dim)] text-center">
+              {report.quarantined.length} quarantined drawing(s) kept aside in plugin storage.
+            </p>
+          )}
+        </div>
+      </main>
+
+      <button
+        onClick={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          onClose()
+        }}
+        className="fixed top-6 right-6 z-50 p-2.5 rounded-full bg-black/5 dark:bg-white/10 hover:bg-black/10 dark:hover:bg-white/20 text-[var(--text-main)] transition-all backdrop-blur-md active:scale-90 shadow-sm"
+        title="Close"
+      >
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+          <line x1="18" y1="6" x2="6" y2="18" />
+          <line x1="6" y1="6" x2="18" y2="18" />
+        </svg>
+      </button>
+    </div>
+  )
+}
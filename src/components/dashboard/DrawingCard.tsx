@@ -1,13 +1,16 @@
 import { useState } from 'react'
 import { formatRelativeTime, cn } from '../../lib/utils'
 import { copyDrawingReference } from '../../lib/plugin'
-import type { Drawing } from '../../types'
+import { useThumbnail } from '../../hooks/useThumbnail'
+import type { DrawingMeta } from '../../types'
 
 interface DrawingCardProps {
-    drawing: Drawing
+    drawing: DrawingMeta
     onOpen: (id: string) => void
-    onUpdate: (id: string, updates: { name?: string; tags?: string[] }) => Promise<Drawing | null>
+    onUpdate: (id: string, updates: { name?: string; tags?: string[] }) => Promise<DrawingMeta | null>
     onDelete: (id: string) => Promise<boolean>
+    onExport: (id: string) => void
+    onExportPdf: (id: string) => void
     isEditingTag: boolean
     setIsEditingTag: (isEditing: boolean) => void
 }
@@ -17,6 +20,8 @@ export function DrawingCard({
     onOpen,
     onUpdate,
     onDelete,
+    onExport,
+    onExportPdf,
     isEditingTag,
     setIsEditingTag
 }: DrawingCardProps) {
@@ -24,6 +29,7 @@ export function DrawingCard({
     const [editName, setEditName] = useState(drawing.name)
     const [inlineTagInput, setInlineTagInput] = useState('')
     const [isCopied, setIsCopied] = useState(false)
+    const thumbnail = useThumbnail(drawing)
 
     const handleSaveName = async () => {
         if (!editName.trim() || editName === drawing.name) {
@@ -36,9 +42,8 @@ export function DrawingCard({
 
     const handleDelete = async (e: React.MouseEvent) => {
         e.stopPropagation()
-        if (window.confirm(`Are you sure you want to delete "${drawing.name}"? This action cannot be undone.`)) {
-            await onDelete(drawing.id)
-        }
+        // Recoverable from the Trash, so no confirmation
+        await onDelete(drawing.id)
     }
 
     const handleCopyRef = async (e: React.MouseEvent) => {
@@ -55,9 +60,9 @@ export function DrawingCard({
         >
             {/* Thumbnail */}
             <div className="aspect-[4/3] bg-white dark:bg-[#121212] p-4 flex items-center justify-center overflow-hidden border-b border-black/[0.02] dark:border-white/[0.02]">
-                {drawing.thumbnail ? (
+                {thumbnail ? (
                     <img
-                        src={drawing.thumbnail}
+                        src={thumbnail}
                         alt={drawing.name}
                         className="w-full h-full object-contain transform group-hover:scale-[1.03] transition-transform duration-700 ease-out"
                     />
@@ -222,10 +227,39 @@ export function DrawingCard({
                                         </svg>
                                     )}
                                 </button>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation()
+                                        onExport(drawing.id)
+                                    }}
+                                    className="p-1.5 rounded-full text-[var(--text-dim)] hover:bg-black/5 dark:hover:bg-white/10 hover:text-blue-600 transition-all active:scale-90"
+                                    title="Export as .excalidraw"
+                                >
+                                    <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                                        <polyline points="7 10 12 15 17 10" />
+                                        <line x1="12" y1="15" x2="12" y2="3" />
+                                    </svg>
+                                </button>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation()
+                                        onExportPdf(drawing.id)
+                                    }}
+                                    className="p-1.5 rounded-full text-[var(--text-dim)] hover:bg-black/5 dark:hover:bg-white/10 hover:text-blue-600 transition-all active:scale-90"
+                                    title="Export as PDF"
+                                >
+                                    <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                        <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                                        <polyline points="14 2 14 8 20 8" />
+                                        <line x1="8" y1="13" x2="16" y2="13" />
+                                        <line x1="8" y1="17" x2="13" y2="17" />
+                                    </svg>
+                                </button>
                                 <button
                                     onClick={handleDelete}
                                     className="p-1.5 rounded-full text-[var(--text-dim)] hover:bg-red-500/10 hover:text-red-500 transition-all active:scale-90"
-                                    title="Delete"
+                                    title="Move to Trash"
                                 >
                                     <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
                                         <polyline points="3 6 5 6 21 6" />
@@ -0,0 +1,54 @@
+import { formatDate } from '../../lib/utils'
+import type { CollisionMode } from '../../lib/store'
+import type { PendingImport } from '../../hooks/useLibraryBackup'
+
+interface ImportLibraryDialogProps {
+    pending: PendingImport
+    onImport: (mode: CollisionMode) => void
+    onCancel: () => void
+}
+
+const OPTIONS: Array<{ mode: CollisionMode; label: string; description: string }> = [
+    { mode: 'skip', label: 'Skip', description: 'Keep the drawings already in the library' },
+    { mode: 'overwrite', label: 'Overwrite', description: 'Replace them with the archived version' },
+    { mode: 'duplicate', label: 'Keep both', description: 'Import the archived version as a new drawing' },
+]
+
+export function ImportLibraryDialog({ pending, onImport, onCancel }: ImportLibraryDialogProps) {
+    const { backup, fileName, collisions } = pending
+    const total = backup.drawings.length
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div
+                className="absolute inset-0 bg-black/20 dark:bg-black/40 backdrop-blur-sm"
+                onClick={onCancel}
+            />
+            <div className="relative bg-[var(--bg-app)] rounded-2xl p-6 shadow-2xl border border-black/5 dark:border-white/10 w-full max-w-md">
+                <h2 className="text-xl font-bold mb-2 dark:text-white">Import Library</h2>
+                <p className="text-sm text-[var(--text-dim)] mb-5">
+                    {fileName} holds {total} {total === 1 ? 'drawing' : 'drawings'}, exported {formatDate(backup.manifest.exportedAt)}.{' '}
+                    {collisions.length} {collisions.length === 1 ? 'is' : 'are'} already in your library.
+                </p>
+                <div className="space-y-2 mb-4">
+                    {OPTIONS.map(({ mode, label, description }) => (
+                        <button
+                            key={mode}
+                            onClick={() => onImport(mode)}
+                            className="w-full text-left px-4 py-3 rounded-xl bg-black/[0.03] dark:bg-white/[0.03] hover:bg-blue-500/10 transition-colors group"
+                        >
+                            <div className="text-sm font-semibold text-[var(--text-main)] group-hover:text-blue-600 dark:group-hover:text-blue-400">{label}</div>
+                            <div className="text-xs text-[var(--text-dim)]">{description}</div>
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={onCancel}
+                    className="w-full py-2.5 bg-black/[0.03] dark:bg-white/[0.03] text-[var(--text-dim)] rounded-lg font-semibold hover:bg-black/[0.06] dark:hover:bg-white/[0.06] transition-colors"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -5,9 +5,32 @@ interface SearchHeaderProps {
     setSearchQuery: (query: string) => void
     onNew: () => void
     totalCount: number
+    trashCount: number
+    isTrashOpen: boolean
+    onToggleTrash: () => void
+    onExportLibrary: () => void
+    onImportLibrary: () => void
+    onImportScenes: () => void
+    onExportShapes: () => void
+    shapeLibraryTag: string | null
+    isLibraryBusy: boolean
 }
 
-export function SearchHeader({ searchQuery, setSearchQuery, onNew, totalCount }: SearchHeaderProps) {
+export function SearchHeader({
+    searchQuery,
+    setSearchQuery,
+    onNew,
+    totalCount,
+    trashCount,
+    isTrashOpen,
+    onToggleTrash,
+    onExportLibrary,
+    onImportLibrary,
+    onImportScenes,
+    onExportShapes,
+    shapeLibraryTag,
+    isLibraryBusy
+}: SearchHeaderProps) {
     return (
         <header className="sticky top-0 z-40 bg-[var(--bg-app)]/80 backdrop-blur-xl border-b border-black/[0.04] dark:border-white/[0.06] px-8 py-6">
             <div className="max-w-6xl mx-auto flex flex-col gap-8">
@@ -29,6 +52,69 @@ export function SearchHeader({ searchQuery, setSearchQuery, onNew, totalCount }:
                         </div>
                     </div>
                     <div className="flex items-center gap-3">
+                        <div className="flex items-center bg-black/5 dark:bg-white/10 p-1 rounded-full">
+                            <button
+                                onClick={onImportScenes}
+                                className="p-2 rounded-full text-[var(--text-dim)] hover:bg-white dark:hover:bg-white/10 hover:text-[var(--text-main)] transition-all active:scale-90"
+                                title="Import .excalidraw / .excalidrawlib Files"
+                            >
+                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                    <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                                    <polyline points="14 2 14 8 20 8" />
+                                    <line x1="12" y1="18" x2="12" y2="12" />
+                                    <line x1="9" y1="15" x2="15" y2="15" />
+                                </svg>
+                            </button>
+                            <button
+                                onClick={onImportLibrary}
+                                disabled={isLibraryBusy}
+                                className="p-2 rounded-full text-[var(--text-dim)] hover:bg-white dark:hover:bg-white/10 hover:text-[var(--text-main)] disabled:opacity-50 transition-all active:scale-90"
+                                title="Import Library"
+                            >
+                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                                    <polyline points="7 10 12 15 17 10" />
+                                    <line x1="12" y1="15" x2="12" y2="3" />
+                                </svg>
+                            </button>
+                            <button
+                                onClick={onExportLibrary}
+                                disabled={isLibraryBusy}
+                                className="p-2 rounded-full text-[var(--text-dim)] hover:bg-white dark:hover:bg-white/10 hover:text-[var(--text-main)] disabled:opacity-50 transition-all active:scale-90"
+                                title="Export Library"
+                            >
+                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                                    <polyline points="17 8 12 3 7 8" />
+                                    <line x1="12" y1="3" x2="12" y2="15" />
+                                </svg>
+                            </button>
+                            <button
+                                onClick={onExportShapes}
+                                className="p-2 rounded-full text-[var(--text-dim)] hover:bg-white dark:hover:bg-white/10 hover:text-[var(--text-main)] transition-all active:scale-90"
+                                title={shapeLibraryTag ? `Export #${shapeLibraryTag} Shape Library` : 'Export Shape Library'}
+                            >
+                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                    <rect x="3" y="3" width="7" height="7" rx="1" />
+                                    <circle cx="17.5" cy="6.5" r="3.5" />
+                                    <polygon points="6.5 14 10 21 3 21 6.5 14" />
+                                    <path d="M17.5 13v8M14 17.5l3.5 3.5 3.5-3.5" />
+                                </svg>
+                            </button>
+                        </div>
+                        <button
+                            onClick={onToggleTrash}
+                            className={`px-4 py-2.5 rounded-full font-bold text-sm transition-all duration-300 flex items-center gap-2 active:scale-95 ${isTrashOpen
+                                ? 'bg-black/10 dark:bg-white/15 text-[var(--text-main)]'
+                                : 'bg-black/5 dark:bg-white/10 text-[var(--text-dim)] hover:text-[var(--text-main)]'}`}
+                            title="Trash"
+                        >
+                            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                <polyline points="3 6 5 6 21 6" />
+                                <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                            </svg>
+                            Trash{trashCount > 0 ? ` (${trashCount})` : ''}
+                        </button>
                         <button
                             onClick={onNew}
                             className="px-7 py-2.5 bg-[#0071e3] hover:bg-[#0077ed] text-white rounded-full font-bold transition-all duration-300 shadow-xl shadow-blue-500/20 flex items-center gap-2 active:scale-95 group"
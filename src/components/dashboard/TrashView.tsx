@@ -0,0 +1,121 @@
+import { formatRelativeTime } from '../../lib/utils'
+import { useThumbnail } from '../../hooks/useThumbnail'
+import type { DrawingMeta } from '../../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface TrashViewProps {
+    items: DrawingMeta[]
+    retentionDays: number
+    onRestore: (id: string) => Promise<boolean>
+    onPurge: (id: string) => Promise<boolean>
+    onEmptyTrash: () => Promise<number>
+    onBack: () => void
+}
+
+interface TrashRowProps {
+    drawing: DrawingMeta
+    retentionDays: number
+    onRestore: (id: string) => Promise<boolean>
+    onPurge: (id: string) => Promise<boolean>
+}
+
+function describeExpiry(deletedAt: number, retentionDays: number): string {
+    if (retentionDays <= 0) return 'Kept until emptied'
+    const daysLeft = Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS)
+    return daysLeft <= 1 ? 'Deleted permanently within a day' : `Deleted permanently in ${daysLeft} days`
+}
+
+function TrashRow({ drawing, retentionDays, onRestore, onPurge }: TrashRowProps) {
+    const thumbnail = useThumbnail(drawing)
+
+    const handlePurge = async () => {
+        if (window.confirm(`Permanently delete "${drawing.name}"? This action cannot be undone.`)) {
+            await onPurge(drawing.id)
+        }
+    }
+
+    return (
+        <li className="flex items-center gap-4 py-3">
+            <div className="w-16 h-12 shrink-0 rounded-xl bg-white dark:bg-[#121212] border border-black/[0.04] dark:border-white/[0.06] flex items-center justify-center overflow-hidden">
+                {thumbnail && <img src={thumbnail} alt={drawing.name} className="w-full h-full object-contain opacity-70" />}
+            </div>
+            <div className="min-w-0 flex-1">
+                <div className="text-sm font-semibold text-[var(--text-main)] truncate">{drawing.name}</div>
+                <div className="text-xs text-[var(--text-dim)] truncate">
+                    Moved to Trash {formatRelativeTime(drawing.deletedAt!)} · {describeExpiry(drawing.deletedAt!, retentionDays)}
+                </div>
+            </div>
+            <button
+                onClick={() => onRestore(drawing.id)}
+                className="shrink-0 px-3 py-1 rounded-full text-[11px] font-bold bg-blue-500/10 text-blue-600 dark:text-blue-400 hover:bg-blue-500/20 transition-all active:scale-95"
+            >
+                Restore
+            </button>
+            <button
+                onClick={handlePurge}
+                className="shrink-0 px-3 py-1 rounded-full text-[11px] font-bold bg-black/5 dark:bg-white/5 text-[var(--text-dim)] hover:bg-red-500/10 hover:text-red-500 transition-all active:scale-95"
+            >
+                Delete forever
+            </button>
+        </li>
+    )
+}
+
+export function TrashView({ items, retentionDays, onRestore, onPurge, onEmptyTrash, onBack }: TrashViewProps) {
+    const handleEmpty = async () => {
+        if (window.confirm(`Permanently delete ${items.length} ${items.length === 1 ? 'drawing' : 'drawings'}? This action cannot be undone.`)) {
+            await onEmptyTrash()
+        }
+    }
+
+    return (
+        <section className="bg-[var(--bg-app)] rounded-3xl border border-black/[0.04] dark:border-white/[0.06] p-6 mt-8">
+            <div className="flex items-start justify-between gap-4 mb-4">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={onBack}
+                        className="p-1.5 rounded-lg hover:bg-black/5 dark:hover:bg-white/10 text-[var(--text-dim)] hover:text-[var(--text-main)] transition-all active:scale-95"
+                        title="Back to drawings"
+                    >
+                        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M19 12H5M12 19l-7-7 7-7" />
+                        </svg>
+                    </button>
+                    <div>
+                        <h2 className="text-base font-bold text-[var(--text-main)]">Trash ({items.length})</h2>
+                        <p className="text-sm text-[var(--text-dim)] mt-0.5">
+                            {retentionDays > 0
+                                ? `Drawings are deleted permanently ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'} after being moved here.`
+                                : 'Drawings stay here until you delete them.'}
+                        </p>
+                    </div>
+                </div>
+                {items.length > 0 && (
+                    <button
+                        onClick={handleEmpty}
+                        className="shrink-0 px-4 py-1.5 rounded-full text-xs font-bold bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-500/20 transition-all active:scale-95"
+                    >
+                        Empty Trash
+                    </button>
+                )}
+            </div>
+
+            {items.length > 0 ? (
+                <ul className="divide-y divide-black/[0.04] dark:divide-white/[0.06]">
+                    {items.map((drawing) => (
+                        <TrashRow
+                            key={drawing.id}
+                            drawing={drawing}
+                            retentionDays={retentionDays}
+                            onRestore={onRestore}
+                            onPurge={onPurge}
+                        />
+                    ))}
+                </ul>
+            ) : (
+                <p className="py-12 text-center text-sm font-medium text-[var(--text-dim)]">Trash is empty.</p>
+            )}
+        </section>
+    )
+}
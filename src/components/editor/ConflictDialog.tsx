@@ -0,0 +1,59 @@
+import { formatRelativeTime } from '../../lib/utils'
+import type { Drawing } from '../../types'
+
+export type ConflictResolution = 'reload' | 'overwrite' | 'merge'
+
+interface ConflictDialogProps {
+    local: Drawing
+    remote: Drawing
+    onResolve: (resolution: ConflictResolution) => void
+}
+
+export function ConflictDialog({ local, remote, onResolve }: ConflictDialogProps) {
+    const remoteCount = remote.data.elements.filter((e) => !e.isDeleted).length
+    const localCount = local.data.elements.filter((e) => !e.isDeleted).length
+
+    return (
+        <div className="fixed inset-0 z-[100000] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/20 dark:bg-black/40 backdrop-blur-sm" />
+            <div className="relative bg-[var(--bg-app)] rounded-2xl p-6 shadow-2xl border border-black/5 dark:border-white/10 w-full max-w-md">
+                <h2 className="text-xl font-bold mb-2 dark:text-white">Drawing changed elsewhere</h2>
+                <p className="text-sm text-[var(--text-dim)] mb-4">
+                    "{remote.name}" was saved from another window or edited in the dashboard {formatRelativeTime(remote.updatedAt)}, after you started editing. Your changes have not been saved.
+                </p>
+                <div className="grid grid-cols-2 gap-3 mb-5 text-xs">
+                    <div className="rounded-xl bg-black/[0.03] dark:bg-white/[0.03] px-3 py-2">
+                        <div className="font-bold text-[var(--text-main)]">Your version</div>
+                        <div className="text-[var(--text-dim)]">{localCount} elements</div>
+                    </div>
+                    <div className="rounded-xl bg-black/[0.03] dark:bg-white/[0.03] px-3 py-2">
+                        <div className="font-bold text-[var(--text-main)]">Saved version</div>
+                        <div className="text-[var(--text-dim)]">{remoteCount} elements</div>
+                    </div>
+                </div>
+                <div className="space-y-2">
+                    <button
+                        onClick={() => onResolve('merge')}
+                        className="w-full py-2.5 bg-[#0071e3] text-white rounded-lg font-semibold hover:bg-[#0077ed] transition-colors"
+                    >
+                        Merge both
+                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => onResolve('reload')}
+                            className="flex-1 py-2.5 bg-black/[0.03] dark:bg-white/[0.03] text-[var(--text-main)] rounded-lg font-semibold hover:bg-black/[0.06] dark:hover:bg-white/[0.06] transition-colors"
+                        >
+                            Reload saved
+                        </button>
+                        <button
+                            onClick={() => onResolve('overwrite')}
+                            className="flex-1 py-2.5 bg-red-500/10 text-red-600 dark:text-red-400 rounded-lg font-semibold hover:bg-red-500/20 transition-colors"
+                        >
+                            Overwrite with mine
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,31 @@
+import { formatRelativeTime } from '../../lib/utils'
+
+interface DraftRecoveryBannerProps {
+    savedAt: number
+    onRestore: () => void
+    onDiscard: () => void
+}
+
+export function DraftRecoveryBanner({ savedAt, onRestore, onDiscard }: DraftRecoveryBannerProps) {
+    return (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-4 pl-5 pr-2 py-2 rounded-full bg-[var(--bg-app)] border border-amber-500/30 shadow-2xl animate-in fade-in slide-in-from-top-2 duration-300">
+            <span className="text-[13px] font-medium text-[var(--text-main)]">
+                Unsaved changes from {formatRelativeTime(savedAt)} were recovered.
+            </span>
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={onRestore}
+                    className="px-4 py-1.5 rounded-full text-xs font-bold bg-[#0071e3] text-white hover:bg-[#0077ed] transition-all active:scale-95"
+                >
+                    Restore
+                </button>
+                <button
+                    onClick={onDiscard}
+                    className="px-4 py-1.5 rounded-full text-xs font-bold text-[var(--text-dim)] hover:text-[var(--text-main)] hover:bg-black/5 dark:hover:bg-white/10 transition-all active:scale-95"
+                >
+                    Discard
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -1,18 +1,25 @@
-import { cn } from '../../lib/utils'
+import { useEffect, useState } from 'react'
+import { cn, formatRelativeTime } from '../../lib/utils'
+import type { SaveStatus } from '../../lib/saveQueue'
 import type { AppMode } from '../../types'
 import { TagEditorPopover } from './TagEditorPopover'
 
 interface EditorHeaderProps {
     drawingName: string
-    mode: 'edit' | 'preview'
+    mode: 'edit' | 'preview' | 'present'
     onBack: () => void
     onSaveNow: () => void
     isSaving: boolean
     isJustSaved: boolean
+    saveStatus: SaveStatus
+    onRetrySave: () => void
     onCopyRef: () => void
     onInsertJournal: () => void
     onExport: () => void
+    onExportScene: () => void
+    onExportPdf: () => void
     onModeChange: (mode: AppMode) => void
+    onPresent: () => void
     currentTags: string[]
     onUpdateTags: (tags: string[]) => void
     isTagMenuOpen: boolean
@@ -25,6 +32,8 @@ interface EditorHeaderProps {
     onZenModeChange: (enabled: boolean) => void
     gridModeEnabled: boolean
     onGridModeChange: (enabled: boolean) => void
+    isHistoryOpen: boolean
+    onToggleHistory: () => void
 }
 
 export function EditorHeader({
@@ -34,10 +43,15 @@ export function EditorHeader({
     onSaveNow,
     isSaving,
     isJustSaved,
+    saveStatus,
+    onRetrySave,
     onCopyRef,
     onInsertJournal,
     onExport,
+    onExportScene,
+    onExportPdf,
     onModeChange,
+    onPresent,
     currentTags,
     onUpdateTags,
     isTagMenuOpen,
@@ -47,8 +61,18 @@ export function EditorHeader({
     zenModeEnabled,
     onZenModeChange,
     gridModeEnabled,
-    onGridModeChange
+    onGridModeChange,
+    isHistoryOpen,
+    onToggleHistory
 }: EditorHeaderProps) {
+    // Re-render now and then so "Saved 2m ago" stays current
+    const [, setTick] = useState(0)
+    useEffect(() => {
+        const timer = setInterval(() => setTick((t) => t + 1), 30_000)
+        return () => clearInterval(timer)
+    }, [])
+
+    const isFailed = saveStatus.state === 'failed'
 
     return (
         <header className={cn(
@@ -75,12 +99,35 @@ export function EditorHeader({
                         <div
                             className={cn(
                                 "w-2 h-2 rounded-full transition-all duration-500",
-                                isSaving && !isJustSaved ? "bg-amber-400 animate-pulse scale-125" :
-                                    isDirty ? "bg-orange-500 shadow-[0_0_8px_rgba(249,115,22,0.4)]" :
-                                        "bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.4)]"
+                                isFailed ? "bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.4)]" :
+                                    isSaving && !isJustSaved ? "bg-amber-400 animate-pulse scale-125" :
+                                        isDirty ? "bg-orange-500 shadow-[0_0_8px_rgba(249,115,22,0.4)]" :
+                                            "bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.4)]"
                             )}
-                            title={isSaving && !isJustSaved ? "Saving..." : isDirty ? "Unsaved changes" : "All changes saved"}
+                            title={isFailed ? saveStatus.error : isSaving && !isJustSaved ? "Saving..." : isDirty ? "Unsaved changes" : "All changes saved"}
                         />
+                        <span className={cn(
+                            "text-[11px] font-semibold whitespace-nowrap",
+                            isFailed || saveStatus.state === 'retrying' ? "text-red-500" : "text-[var(--text-dim)]"
+                        )}>
+                            {saveStatus.state === 'saving' ? "Saving..."
+                                : saveStatus.state === 'retrying' ? "Save failed, retrying..."
+                                    : isFailed ? "Save failed"
+                                        : isDirty ? "Unsaved changes"
+                                            : saveStatus.state === 'saved' ? `Saved ${formatRelativeTime(saveStatus.at).toLowerCase()}`
+                                                : null}
+                        </span>
+                        {(isFailed || saveStatus.state === 'retrying') && (
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation()
+                                    onRetrySave()
+                                }}
+                                className="px-2 py-0.5 rounded-full text-[11px] font-bold bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-500/20 transition-all active:scale-95 pointer-events-auto"
+                            >
+                                Retry
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -183,10 +230,41 @@ export function EditorHeader({
                             Preview
                         </button>
                     </div>
+
+                    <button
+                        onClick={onPresent}
+                        className="p-1.5 rounded-full transition-all active:scale-90 pointer-events-auto text-[var(--text-dim)] hover:bg-black/5 dark:hover:bg-white/10 hover:text-[var(--text-main)]"
+                        title="Present Frames"
+                    >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <rect x="2" y="3" width="20" height="14" rx="2" />
+                            <path d="M8 21h8M12 17v4" />
+                            <polygon points="10 7 15 10 10 13 10 7" />
+                        </svg>
+                    </button>
                 </div>
 
                 {/* Right Actions Section */}
                 <div className="flex items-center gap-2">
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation()
+                            onToggleHistory()
+                        }}
+                        className={cn(
+                            "p-1.5 rounded-full transition-all active:scale-90 pointer-events-auto",
+                            isHistoryOpen
+                                ? "bg-blue-500/10 text-blue-600 dark:text-blue-400"
+                                : "text-[var(--text-dim)] hover:bg-black/5 dark:hover:bg-white/10 hover:text-[var(--text-main)]"
+                        )}
+                        title="Version History"
+                    >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+                            <polyline points="3 3 3 8 8 8" />
+                            <polyline points="12 7 12 12 15 15" />
+                        </svg>
+                    </button>
                     <button
                         onClick={(e) => {
                             e.stopPropagation()
@@ -255,7 +333,7 @@ export function EditorHeader({
                                 onExport()
                             }}
                             className="p-1.5 rounded-full hover:bg-white dark:hover:bg-white/10 text-[var(--text-dim)] hover:text-[var(--text-main)] transition-all active:scale-90 pointer-events-auto"
-                            title="Export to Image"
+                            title="Export Image..."
                         >
                             <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
                                 <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v4" />
@@ -263,6 +341,36 @@ export function EditorHeader({
                                 <line x1="12" y1="15" x2="12" y2="3" />
                             </svg>
                         </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation()
+                                onExportScene()
+                            }}
+                            className="p-1.5 rounded-full hover:bg-white dark:hover:bg-white/10 text-[var(--text-dim)] hover:text-[var(--text-main)] transition-all active:scale-90 pointer-events-auto"
+                            title="Export as .excalidraw"
+                        >
+                            <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                                <polyline points="14 2 14 8 20 8" />
+                                <polyline points="9 15 12 18 15 15" />
+                                <line x1="12" y1="18" x2="12" y2="11" />
+                            </svg>
+                        </button>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation()
+                                onExportPdf()
+                            }}
+                            className="p-1.5 rounded-full hover:bg-white dark:hover:bg-white/10 text-[var(--text-dim)] hover:text-[var(--text-main)] transition-all active:scale-90 pointer-events-auto"
+                            title="Export as PDF"
+                        >
+                            <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                                <polyline points="14 2 14 8 20 8" />
+                                <line x1="8" y1="13" x2="16" y2="13" />
+                                <line x1="8" y1="17" x2="13" y2="17" />
+                            </svg>
+                        </button>
                     </div>
 
                     <div className="w-px h-6 bg-black/5 dark:bg-white/10 mx-1" />
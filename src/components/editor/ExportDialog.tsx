@@ -0,0 +1,204 @@
+import { useState } from 'react'
+import { EXPORT_SCALES } from '../../lib/exportImage'
+import type { ExportFormat, ExportFrame, ExportScope, ImageExportOptions } from '../../lib/exportImage'
+import { cn } from '../../lib/utils'
+
+interface ExportDialogProps {
+    drawingName: string
+    options: ImageExportOptions
+    frames: ExportFrame[]
+    hasSelection: boolean
+    isExporting: boolean
+    linkedExport: ExportFormat | null
+    onChange: (options: ImageExportOptions) => void
+    onDownload: (options: ImageExportOptions) => void
+    onCopy: (options: ImageExportOptions) => void
+    onExportToAssets: (format: ExportFormat, linked: boolean) => void
+    onClose: () => void
+}
+
+interface SegmentedProps<T extends string | number> {
+    value: T
+    choices: { value: T; label: string; disabled?: boolean }[]
+    onChange: (value: T) => void
+}
+
+function Segmented<T extends string | number>({ value, choices, onChange }: SegmentedProps<T>) {
+    return (
+        <div className="flex p-0.5 rounded-lg bg-black/[0.04] dark:bg-white/[0.06]">
+            {choices.map((choice) => (
+                <button
+                    key={choice.value}
+                    disabled={choice.disabled}
+                    onClick={() => onChange(choice.value)}
+                    className={cn(
+                        "flex-1 px-3 py-1 rounded-md text-xs font-semibold transition-all",
+                        value === choice.value
+                            ? "bg-white dark:bg-white/15 text-[var(--text-main)] shadow-sm"
+                            : "text-[var(--text-dim)] hover:text-[var(--text-main)]",
+                        choice.disabled && "opacity-40 pointer-events-none"
+                    )}
+                >
+                    {choice.label}
+                </button>
+            ))}
+        </div>
+    )
+}
+
+function Toggle({ label, hint, checked, onChange }: { label: string; hint?: string; checked: boolean; onChange: (checked: boolean) => void }) {
+    return (
+        <label className="flex items-center justify-between gap-4 py-1.5 cursor-pointer">
+            <span>
+                <span className="block text-sm text-[var(--text-main)]">{label}</span>
+                {hint && <span className="block text-[11px] text-[var(--text-dim)]">{hint}</span>}
+            </span>
+            <input
+                type="checkbox"
+                checked={checked}
+                onChange={(e) => onChange(e.target.checked)}
+                className="w-4 h-4 accent-[#0071e3]"
+            />
+        </label>
+    )
+}
+
+export function ExportDialog({
+    drawingName,
+    options,
+    frames,
+    hasSelection,
+    isExporting,
+    linkedExport,
+    onChange,
+    onDownload,
+    onCopy,
+    onExportToAssets,
+    onClose
+}: ExportDialogProps) {
+    const [keepLinked, setKeepLinked] = useState(linkedExport !== null)
+    const update = (changes: Partial<ImageExportOptions>) => onChange({ ...options, ...changes })
+
+    // A scope that no longer applies (selection cleared, frame deleted) falls back to the scene
+    const frameId = frames.some((f) => f.id === options.frameId) ? options.frameId : frames[0]?.id
+    const scope: ExportScope =
+        (options.scope === 'selection' && !hasSelection) || (options.scope === 'frame' && !frameId)
+            ? 'scene'
+            : options.scope
+    const resolved = { ...options, scope, frameId }
+
+    return (
+        <div className="fixed inset-0 z-[100000] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/20 dark:bg-black/40 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative bg-[var(--bg-app)] rounded-2xl p-6 shadow-2xl border border-black/5 dark:border-white/10 w-full max-w-md">
+                <h2 className="text-xl font-bold mb-1 dark:text-white">Export image</h2>
+                <p className="text-sm text-[var(--text-dim)] mb-5 truncate">{drawingName}</p>
+
+                <div className="space-y-4 mb-6">
+                    <div className="space-y-1.5">
+                        <div className="text-[11px] font-bold uppercase tracking-wider text-[var(--text-dim)]">Format</div>
+                        <Segmented
+                            value={options.format}
+                            choices={[{ value: 'png', label: 'PNG' }, { value: 'svg', label: 'SVG' }]}
+                            onChange={(format) => update({ format })}
+                        />
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <div className="text-[11px] font-bold uppercase tracking-wider text-[var(--text-dim)]">Scale</div>
+                        <Segmented
+                            value={options.scale}
+                            choices={EXPORT_SCALES.map((scale) => ({ value: scale, label: `${scale}x` }))}
+                            onChange={(scale) => update({ scale })}
+                        />
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <div className="text-[11px] font-bold uppercase tracking-wider text-[var(--text-dim)]">Content</div>
+                        <Segmented
+                            value={scope}
+                            choices={[
+                                { value: 'scene', label: 'Everything' },
+                                { value: 'selection', label: 'Selection', disabled: !hasSelection },
+                                { value: 'frame', label: 'Frame', disabled: frames.length === 0 },
+                            ]}
+                            onChange={(next) => update({ scope: next, frameId })}
+                        />
+                        {scope === 'frame' && frames.length > 1 && (
+                            <select
+                                value={frameId}
+                                onChange={(e) => update({ frameId: e.target.value })}
+                                className="w-full mt-1.5 px-3 py-1.5 rounded-lg text-sm bg-black/[0.03] dark:bg-white/[0.05] text-[var(--text-main)] border border-black/5 dark:border-white/10 outline-none"
+                            >
+                                {frames.map((frame) => (
+                                    <option key={frame.id} value={frame.id}>{frame.name}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+
+                    <div className="border-t border-black/5 dark:border-white/10 pt-2">
+                        <Toggle label="Background" checked={options.background} onChange={(background) => update({ background })} />
+                        <Toggle label="Dark mode" checked={options.darkMode} onChange={(darkMode) => update({ darkMode })} />
+                        <Toggle
+                            label="Embed scene"
+                            hint="The image can be opened in Excalidraw and edited again"
+                            checked={options.embedScene}
+                            onChange={(embedScene) => update({ embedScene })}
+                        />
+                    </div>
+                </div>
+
+                <div className="rounded-xl bg-black/[0.03] dark:bg-white/[0.03] px-4 py-3 mb-5">
+                    <div className="flex items-center justify-between gap-4">
+                        <span>
+                            <span className="block text-sm font-semibold text-[var(--text-main)]">Graph assets</span>
+                            <span className="block text-[11px] text-[var(--text-dim)]">
+                                {linkedExport
+                                    ? `Linked as ${linkedExport.toUpperCase()}, updated on every save`
+                                    : 'Adds an image block after each reference, for published graphs and mobile'}
+                            </span>
+                        </span>
+                        <button
+                            onClick={() => onExportToAssets(options.format, keepLinked)}
+                            disabled={isExporting}
+                            className="shrink-0 px-4 py-1.5 rounded-full text-xs font-bold bg-[#0071e3] text-white hover:bg-[#0077ed] transition-all active:scale-95 disabled:opacity-50"
+                        >
+                            Export {options.format.toUpperCase()}
+                        </button>
+                    </div>
+                    <Toggle
+                        label="Keep updated"
+                        hint="Export again after every save"
+                        checked={keepLinked}
+                        onChange={setKeepLinked}
+                    />
+                </div>
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2.5 text-[var(--text-main)] rounded-lg font-semibold hover:bg-black/[0.04] dark:hover:bg-white/[0.06] transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <div className="flex-1" />
+                    <button
+                        onClick={() => onCopy(resolved)}
+                        disabled={isExporting}
+                        className="px-4 py-2.5 bg-black/[0.03] dark:bg-white/[0.03] text-[var(--text-main)] rounded-lg font-semibold hover:bg-black/[0.06] dark:hover:bg-white/[0.06] transition-colors disabled:opacity-50"
+                    >
+                        Copy
+                    </button>
+                    <button
+                        onClick={() => onDownload(resolved)}
+                        disabled={isExporting}
+                        className="px-5 py-2.5 bg-[#0071e3] text-white rounded-lg font-semibold hover:bg-[#0077ed] transition-colors disabled:opacity-50"
+                    >
+                        {isExporting ? 'Exporting...' : 'Download'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
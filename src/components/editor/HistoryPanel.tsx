@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react'
+import { cn, formatDate, formatRelativeTime } from '../../lib/utils'
+import type { SnapshotMeta } from '../../lib/store'
+
+interface HistoryPanelProps {
+    snapshots: SnapshotMeta[]
+    isLoading: boolean
+    loadThumbnail: (snapshotId: string) => Promise<string | null>
+    onRestore: (snapshotId: string) => Promise<void>
+    onFork: (snapshotId: string) => Promise<void>
+    onClose: () => void
+}
+
+export function HistoryPanel({ snapshots, isLoading, loadThumbnail, onRestore, onFork, onClose }: HistoryPanelProps) {
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [preview, setPreview] = useState<string | null>(null)
+    const [isBusy, setIsBusy] = useState(false)
+
+    const selected = snapshots.find((s) => s.id === selectedId) ?? null
+
+    useEffect(() => {
+        setPreview(null)
+        if (!selected?.hasThumbnail) return
+
+        let cancelled = false
+        loadThumbnail(selected.id).then((url) => {
+            if (!cancelled) setPreview(url)
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [selected?.id, selected?.hasThumbnail, loadThumbnail])
+
+    const run = async (action: (snapshotId: string) => Promise<void>) => {
+        if (!selected) return
+        setIsBusy(true)
+        try {
+            await action(selected.id)
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    const handleRestore = () => {
+        if (!selected) return
+        if (window.confirm(`Restore the version from ${formatDate(selected.createdAt)}? The current version stays in history.`)) {
+            run(onRestore)
+        }
+    }
+
+    return (
+        <aside
+            className="absolute top-4 right-4 bottom-4 w-80 z-20 flex flex-col rounded-3xl bg-[var(--bg-app)]/95 backdrop-blur-xl border border-black/5 dark:border-white/10 shadow-2xl animate-in fade-in slide-in-from-right-4 duration-200"
+            onPointerDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between px-5 py-4 border-b border-black/[0.04] dark:border-white/[0.06]">
+                <h3 className="text-sm font-bold text-[var(--text-main)]">Version History</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-full hover:bg-black/5 dark:hover:bg-white/10 text-[var(--text-dim)] hover:text-[var(--text-main)] transition-all active:scale-90"
+                    title="Close History"
+                >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                    </svg>
+                </button>
+            </div>
+
+            {selected && (
+                <div className="px-5 py-4 border-b border-black/[0.04] dark:border-white/[0.06]">
+                    <div className="aspect-[4/3] rounded-2xl bg-white dark:bg-[#121212] border border-black/[0.04] dark:border-white/[0.06] flex items-center justify-center overflow-hidden mb-3">
+                        {preview ? (
+                            <img src={preview} alt="Snapshot preview" className="w-full h-full object-contain" />
+                        ) : (
+                            <span className="text-[10px] font-bold uppercase tracking-widest text-[var(--text-dim)] opacity-40">No Preview</span>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleRestore}
+                            disabled={isBusy}
+                            className="flex-1 px-3 py-1.5 bg-blue-600 text-white rounded-full text-xs font-bold hover:bg-blue-700 disabled:opacity-50 shadow-lg shadow-blue-500/20 transition-all active:scale-95"
+                        >
+                            Restore
+                        </button>
+                        <button
+                            onClick={() => run(onFork)}
+                            disabled={isBusy}
+                            className="flex-1 px-3 py-1.5 bg-black/5 dark:bg-white/5 text-[var(--text-main)] rounded-full text-xs font-bold hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50 transition-all active:scale-95"
+                        >
+                            Open as Copy
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <ul className="flex-1 overflow-y-auto px-2 py-2 custom-scrollbar">
+                {snapshots.map((snapshot, i) => (
+                    <li key={snapshot.id}>
+                        <button
+                            onClick={() => setSelectedId(snapshot.id)}
+                            className={cn(
+                                "w-full text-left px-3 py-2 rounded-xl transition-all",
+                                snapshot.id === selectedId
+                                    ? "bg-blue-500/10 text-blue-600 dark:text-blue-400"
+                                    : "hover:bg-black/5 dark:hover:bg-white/5 text-[var(--text-main)]"
+                            )}
+                        >
+                            <div className="text-xs font-semibold">
+                                {formatRelativeTime(snapshot.createdAt)}{i === 0 && ' · Latest'}
+                            </div>
+                            <div className="text-[11px] text-[var(--text-dim)]">
+                                {formatDate(snapshot.createdAt)} · {snapshot.elementCount} {snapshot.elementCount === 1 ? 'element' : 'elements'}
+                            </div>
+                        </button>
+                    </li>
+                ))}
+                {!isLoading && snapshots.length === 0 && (
+                    <li className="px-3 py-8 text-center text-xs font-medium text-[var(--text-dim)]">
+                        No versions yet. A version is kept each time the drawing is saved.
+                    </li>
+                )}
+            </ul>
+        </aside>
+    )
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react'
+import type { SlideInfo } from '../../hooks/usePresentation'
+import { cn } from '../../lib/utils'
+
+interface PresentationOverlayProps {
+    slides: SlideInfo[]
+    index: number
+    isOverviewOpen: boolean
+    isLaserOn: boolean
+    onNext: () => void
+    onPrev: () => void
+    onGoTo: (index: number) => void
+    onToggleOverview: () => void
+    onToggleLaser: () => void
+    loadPreview: (slideId: string) => Promise<string | null>
+    onExit: () => void
+}
+
+function SlideCard({ slide, number, isCurrent, loadPreview, onSelect }: {
+    slide: SlideInfo
+    number: number
+    isCurrent: boolean
+    loadPreview: (slideId: string) => Promise<string | null>
+    onSelect: () => void
+}) {
+    const [preview, setPreview] = useState<string | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+        loadPreview(slide.id).then((url) => {
+            if (!cancelled) setPreview(url)
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [slide.id, loadPreview])
+
+    return (
+        <button
+            onClick={onSelect}
+            className={cn(
+                "group flex flex-col gap-2 p-2 rounded-2xl text-left transition-all active:scale-[0.98]",
+                isCurrent ? "bg-[#0071e3]/10 ring-2 ring-[#0071e3]" : "hover:bg-black/[0.04] dark:hover:bg-white/[0.06]"
+            )}
+        >
+            <div className="aspect-video w-full rounded-xl bg-white dark:bg-[#1c1c1e] border border-black/5 dark:border-white/10 flex items-center justify-center overflow-hidden">
+                {preview ? (
+                    <img src={preview} alt={slide.name} className="max-w-full max-h-full object-contain" />
+                ) : (
+                    <div className="w-5 h-5 rounded-full border-2 border-black/10 dark:border-white/10 border-t-[var(--text-dim)] animate-spin" />
+                )}
+            </div>
+            <span className="px-1 text-xs font-semibold text-[var(--text-main)] truncate">
+                <span className="text-[var(--text-dim)] mr-1.5">{number}</span>
+                {slide.name}
+            </span>
+        </button>
+    )
+}
+
+export function PresentationOverlay({
+    slides,
+    index,
+    isOverviewOpen,
+    isLaserOn,
+    onNext,
+    onPrev,
+    onGoTo,
+    onToggleOverview,
+    onToggleLaser,
+    loadPreview,
+    onExit
+}: PresentationOverlayProps) {
+    // Captured on the window so the canvas and the plugin's Escape handler never see these keys
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return
+            switch (e.key) {
+                case 'ArrowRight':
+                case 'ArrowDown':
+                case 'PageDown':
+                case ' ':
+                    onNext()
+                    break
+                case 'ArrowLeft':
+                case 'ArrowUp':
+                case 'PageUp':
+                case 'Backspace':
+                    onPrev()
+                    break
+                case 'Home':
+                    onGoTo(0)
+                    break
+                case 'End':
+                    onGoTo(slides.length - 1)
+                    break
+                case 'o':
+                case 'O':
+                    onToggleOverview()
+                    break
+                case 'l':
+                case 'L':
+                    onToggleLaser()
+                    break
+                case 'Escape':
+                    if (isOverviewOpen) onToggleOverview()
+                    else onExit()
+                    break
+                default:
+                    return
+            }
+            e.preventDefault()
+            e.stopPropagation()
+        }
+        window.addEventListener('keydown', handleKeyDown, true)
+        return () => window.removeEventListener('keydown', handleKeyDown, true)
+    }, [slides.length, isOverviewOpen, onNext, onPrev, onGoTo, onToggleOverview, onToggleLaser, onExit])
+
+    const current = slides[index]
+
+    return (
+        <>
+            {isOverviewOpen && (
+                <div
+                    className="absolute inset-0 z-30 bg-[var(--bg-app)]/90 backdrop-blur-xl overflow-y-auto animate-in fade-in duration-200"
+                    onPointerDown={(e) => e.stopPropagation()}
+                >
+                    <div className="max-w-6xl mx-auto px-8 py-10">
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-xl font-bold text-[var(--text-main)]">Slides</h2>
+                            <button
+                                onClick={onToggleOverview}
+                                className="px-4 py-1.5 rounded-full text-xs font-bold text-[var(--text-main)] bg-black/[0.04] dark:bg-white/[0.06] hover:bg-black/[0.08] dark:hover:bg-white/[0.1] transition-colors"
+                            >
+                                Back to slide
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                            {slides.map((slide, i) => (
+                                <SlideCard
+                                    key={slide.id}
+                                    slide={slide}
+                                    number={i + 1}
+                                    isCurrent={i === index}
+                                    loadPreview={loadPreview}
+                                    onSelect={() => onGoTo(i)}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <div
+                className="absolute bottom-6 right-6 z-40 flex items-center gap-1 p-1.5 rounded-full bg-black/75 backdrop-blur-md text-white shadow-2xl opacity-40 hover:opacity-100 transition-opacity duration-300"
+                onPointerDown={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onPrev}
+                    disabled={index === 0}
+                    title="Previous slide (←)"
+                    className="p-2 rounded-full hover:bg-white/15 transition-colors active:scale-90 disabled:opacity-30"
+                >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                        <polyline points="15 18 9 12 15 6" />
+                    </svg>
+                </button>
+                <span className="px-2 text-xs font-bold tabular-nums max-w-[200px] truncate" title={current?.name}>
+                    {index + 1} / {slides.length}
+                    {current && <span className="ml-2 font-medium text-white/60">{current.name}</span>}
+                </span>
+                <button
+                    onClick={onNext}
+                    disabled={index >= slides.length - 1}
+                    title="Next slide (→)"
+                    className="p-2 rounded-full hover:bg-white/15 transition-colors active:scale-90 disabled:opacity-30"
+                >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                        <polyline points="9 18 15 12 9 6" />
+                    </svg>
+                </button>
+
+                <div className="w-px h-5 bg-white/20 mx-1" />
+
+                <button
+                    onClick={onToggleOverview}
+                    title="Slide overview (O)"
+                    className={cn(
+                        "p-2 rounded-full transition-colors active:scale-90",
+                        isOverviewOpen ? "bg-white/25" : "hover:bg-white/15"
+                    )}
+                >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <rect x="3" y="3" width="7" height="7" rx="1" />
+                        <rect x="14" y="3" width="7" height="7" rx="1" />
+                        <rect x="3" y="14" width="7" height="7" rx="1" />
+                        <rect x="14" y="14" width="7" height="7" rx="1" />
+                    </svg>
+                </button>
+                <button
+                    onClick={onToggleLaser}
+                    title="Laser pointer (L)"
+                    className={cn(
+                        "p-2 rounded-full transition-colors active:scale-90",
+                        isLaserOn ? "bg-red-500/80" : "hover:bg-white/15"
+                    )}
+                >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <circle cx="12" cy="12" r="3" />
+                        <path d="M12 2v3M12 19v3M2 12h3M19 12h3" />
+                    </svg>
+                </button>
+                <button
+                    onClick={onExit}
+                    title="End presentation (Esc)"
+                    className="p-2 rounded-full hover:bg-white/15 transition-colors active:scale-90"
+                >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                    </svg>
+                </button>
+            </div>
+        </>
+    )
+}
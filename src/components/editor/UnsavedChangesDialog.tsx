@@ -0,0 +1,42 @@
+export type UnsavedChoice = 'retry' | 'discard' | 'stay'
+
+interface UnsavedChangesDialogProps {
+    drawingName: string
+    onChoose: (choice: UnsavedChoice) => void
+}
+
+export function UnsavedChangesDialog({ drawingName, onChoose }: UnsavedChangesDialogProps) {
+    return (
+        <div className="fixed inset-0 z-[100000] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/20 dark:bg-black/40 backdrop-blur-sm" onClick={() => onChoose('stay')} />
+            <div className="relative bg-[var(--bg-app)] rounded-2xl p-6 shadow-2xl border border-black/5 dark:border-white/10 w-full max-w-md">
+                <h2 className="text-xl font-bold mb-2 dark:text-white">Unsaved changes</h2>
+                <p className="text-sm text-[var(--text-dim)] mb-5">
+                    Your latest changes to "{drawingName}" could not be saved. If you leave now they will be lost.
+                </p>
+                <div className="space-y-2">
+                    <button
+                        onClick={() => onChoose('retry')}
+                        className="w-full py-2.5 bg-[#0071e3] text-white rounded-lg font-semibold hover:bg-[#0077ed] transition-colors"
+                    >
+                        Try saving again
+                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => onChoose('stay')}
+                            className="flex-1 py-2.5 bg-black/[0.03] dark:bg-white/[0.03] text-[var(--text-main)] rounded-lg font-semibold hover:bg-black/[0.06] dark:hover:bg-white/[0.06] transition-colors"
+                        >
+                            Keep editing
+                        </button>
+                        <button
+                            onClick={() => onChoose('discard')}
+                            className="flex-1 py-2.5 bg-red-500/10 text-red-600 dark:text-red-400 rounded-lg font-semibold hover:bg-red-500/20 transition-colors"
+                        >
+                            Leave without saving
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -1,3 +1,10 @@
 export { useLogseq } from './useLogseq'
 export { useTheme } from './useTheme'
 export { useExcalidraw } from './useExcalidraw'
+export { useThumbnail } from './useThumbnail'
+export { useLibraryRepair } from './useLibraryRepair'
+export { useDrawingHistory } from './useDrawingHistory'
+export { useLibraryBackup } from './useLibraryBackup'
+export { useExcalidrawFiles } from './useExcalidrawFiles'
+export { useLegacyImport } from './useLegacyImport'
+export { useSettings } from './useSettings'
@@ -0,0 +1,44 @@
+import { useState, useCallback, useEffect } from 'react'
+import { logger } from '../lib/logger'
+import { drawingStore } from '../lib/store'
+import type { SnapshotMeta } from '../lib/store'
+
+/**
+ * List a drawing's version history while the history panel is open
+ * Reloads whenever the store changes, so new saves show up live.
+ */
+export function useDrawingHistory(drawingId: string, isOpen: boolean) {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setSnapshots(await drawingStore.listSnapshots(drawingId))
+    } catch (error) {
+      logger.error('Failed to load history:', error)
+      setSnapshots([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [drawingId])
+
+  const loadThumbnail = useCallback(async (snapshotId: string): Promise<string | null> => {
+    try {
+      return await drawingStore.getSnapshotThumbnail(drawingId, snapshotId)
+    } catch (error) {
+      logger.warn('Failed to load snapshot thumbnail:', snapshotId, error)
+      return null
+    }
+  }, [drawingId])
+
+  useEffect(() => {
+    if (!isOpen) return
+    refresh()
+    return drawingStore.subscribe(() => {
+      refresh()
+    })
+  }, [isOpen, refresh])
+
+  return { snapshots, isLoading, refresh, loadThumbnail }
+}
@@ -1,12 +1,28 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
 import type { ExcalidrawData, Drawing } from '../types'
-import type { ExcalidrawImperativeAPI } from '@excalidraw/excalidraw/types/types'
+import type { AppState, BinaryFiles, ExcalidrawImperativeAPI } from '@excalidraw/excalidraw/types/types'
+import type { ExcalidrawElement, FontFamilyValues } from '@excalidraw/excalidraw/types/element/types'
 import { logger } from '../lib/logger'
+import { downloadExcalidrawFile } from '../lib/excalidrawFile'
+import { downloadPdf } from '../lib/exportPdf'
+import { hasExportableSelection, listFrames, renderImage } from '../lib/exportImage'
+import type { ImageExportOptions } from '../lib/exportImage'
+import { drawingStore } from '../lib/store'
+import { clearDraft, writeDraft } from '../lib/drafts'
+import { SaveQueue } from '../lib/saveQueue'
+import { hasSavedViewport, pickPersistedAppState } from '../lib/viewState'
+import { ChangeTracker, fingerprintScene } from '../lib/changeTracker'
+import type { SaveStatus } from '../lib/saveQueue'
+import type { Draft } from '../lib/drafts'
+
+// Delay between the last change and writing the recovery draft
+const DRAFT_DELAY_MS = 1000
 
 interface UseExcalidrawOptions {
   drawing: Drawing
   onSave?: (drawing: Drawing) => Promise<Drawing | null>
   autoSaveInterval?: number
+  defaultFontFamily?: number  // font for new text
   tagsRef?: React.RefObject<string[]>  // Optional ref for dynamic tags
 }
 
@@ -14,16 +30,22 @@ export function useExcalidraw({
   drawing,
   onSave,
   autoSaveInterval = 5000,
+  defaultFontFamily,
   tagsRef,
 }: UseExcalidrawOptions) {
   const [isDirty, setIsDirty] = useState(false)
-  const [isSaving, setIsSaving] = useState(false)
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>({ state: 'idle' })
+  const isSaving = saveStatus.state === 'saving' || saveStatus.state === 'retrying'
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
   const excalidrawAPIRef = useRef<ExcalidrawImperativeAPI | null>(null)
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const draftTimerRef = useRef<NodeJS.Timeout | null>(null)
 
-  // Store hash of last saved data to compare
-  const lastSavedHashRef = useRef<string>('')
+  // What the scene looked like when last saved, to tell when it changes
+  const changeTrackerRef = useRef<ChangeTracker | null>(null)
+  if (!changeTrackerRef.current) changeTrackerRef.current = new ChangeTracker()
+  // Viewport and editor preferences as last saved, to spot view-only changes
+  const lastSavedViewRef = useRef<string>('')
   // Flag to prevent save during initial load
   const isInitializedRef = useRef(false)
 
@@ -35,27 +57,41 @@ export function useExcalidraw({
   drawingRef.current = drawing
   onSaveRef.current = onSave
 
-  // Simple hash function for comparing data
-  const getDataHash = useCallback((elements: readonly any[]): string => {
-    // Just use element count and a few key properties for quick comparison
-    if (!elements || elements.length === 0) return 'empty'
-    const summary = elements.map(e => `${e.id}:${e.type}:${e.x}:${e.y}:${e.version || 0}`).join('|')
-    return summary
+  /**
+   * Fingerprint of what's on the canvas now
+   */
+  const fingerprintCanvas = useCallback((api: ExcalidrawImperativeAPI) => {
+    return fingerprintScene(api.getSceneElementsIncludingDeleted(), api.getAppState(), api.getFiles())
   }, [])
 
   const setExcalidrawAPI = useCallback((api: ExcalidrawImperativeAPI) => {
     excalidrawAPIRef.current = api
-    // Initialize hash with current drawing data
-    if (drawingRef.current.data.elements) {
-      lastSavedHashRef.current = getDataHash(drawingRef.current.data.elements as readonly any[])
-      logger.debug('Initialized hash:', lastSavedHashRef.current)
+    // Image files live in the asset store and are loaded on demand
+    const fileRefs = drawingRef.current.data.fileRefs
+    if (fileRefs && Object.keys(fileRefs).length > 0) {
+      drawingStore.loadFiles(fileRefs)
+        .then((files) => {
+          if (files.length === 0) return
+          api.addFiles(files)
+          changeTrackerRef.current!.acceptFiles(files.map((file) => file.id), api.getFiles())
+        })
+        .catch((error) => logger.error('Failed to load files:', error))
+    }
+    // Without a saved viewport, frame the drawing once the scene is in
+    const { appState, elements } = drawingRef.current.data
+    if (!hasSavedViewport(appState) && elements?.some((e) => !e.isDeleted)) {
+      requestAnimationFrame(() => {
+        api.scrollToContent(undefined, { fitToContent: true, animate: false })
+      })
     }
     // Mark as initialized after a short delay to ignore initial onChange events
     setTimeout(() => {
       isInitializedRef.current = true
+      changeTrackerRef.current!.reset(fingerprintCanvas(api))
+      lastSavedViewRef.current = JSON.stringify(pickPersistedAppState(api.getAppState()))
       logger.debug('Component initialized')
     }, 1000)
-  }, [getDataHash])
+  }, [fingerprintCanvas])
 
   // Track mount state to prevent memory leaks in async operations
   const isMountedRef = useRef(true)
@@ -69,262 +105,315 @@ export function useExcalidraw({
         clearTimeout(autoSaveTimerRef.current)
         autoSaveTimerRef.current = null
       }
+      if (draftTimerRef.current) {
+        clearTimeout(draftTimerRef.current)
+        draftTimerRef.current = null
+      }
       // Reset initialized flag
       isInitializedRef.current = false
       logger.debug('Cleanup on unmount')
     }
   }, [])
 
+  // New text uses the default font; the initial one comes from initialData
+  useEffect(() => {
+    if (defaultFontFamily === undefined) return
+    excalidrawAPIRef.current?.updateScene({
+      appState: { currentItemFontFamily: defaultFontFamily as FontFamilyValues },
+    })
+  }, [defaultFontFamily])
+
   const getExcalidrawData = useCallback((): ExcalidrawData | null => {
     const api = excalidrawAPIRef.current
     if (!api) return null
 
-    const elements = api.getSceneElements()
+    // Deleted elements are kept as tombstones so merges can tell a
+    // deletion in one window from an addition in another
+    const elements = api.getSceneElementsIncludingDeleted()
     const appState = api.getAppState()
     const files = api.getFiles()
 
     return {
       elements,
-      appState: {
-        viewBackgroundColor: appState.viewBackgroundColor,
-        gridSize: appState.gridSize,
-      },
+      appState: pickPersistedAppState(appState),
       files,
     }
   }, [])
 
-  const handleChange = useCallback(() => {
+  /**
+   * Whether the viewport or editor preferences changed since the last save
+   * These don't make the drawing dirty, but are worth saving on exit.
+   */
+  const hasUnsavedView = useCallback((): boolean => {
     const api = excalidrawAPIRef.current
-    if (!api) return
+    if (!api || !isInitializedRef.current) return false
+    return JSON.stringify(pickPersistedAppState(api.getAppState())) !== lastSavedViewRef.current
+  }, [])
 
+  /**
+   * Store a viewport or preference change on its own, without saving the
+   * drawing, so its revision and last-updated time stay
+   */
+  const saveView = useCallback(async (): Promise<boolean> => {
+    const api = excalidrawAPIRef.current
+    if (!api) return false
+
+    const appState = pickPersistedAppState(api.getAppState())
+    try {
+      const stored = await drawingStore.saveViewState(drawingRef.current.id, appState)
+      if (stored) lastSavedViewRef.current = JSON.stringify(appState)
+      return stored
+    } catch (error) {
+      logger.warn('Failed to save the view:', error)
+      return false
+    }
+  }, [])
+
+  /**
+   * The scene is saved: the recovery draft is no longer needed
+   */
+  const dropDraft = useCallback(() => {
+    if (draftTimerRef.current) {
+      clearTimeout(draftTimerRef.current)
+      draftTimerRef.current = null
+    }
+    clearDraft(drawingRef.current.id)
+  }, [])
+
+  const handleChange = useCallback((
+    elements: readonly ExcalidrawElement[],
+    appState: AppState,
+    files: BinaryFiles
+  ) => {
     // Don't process changes until component is fully initialized
     if (!isInitializedRef.current) {
       return
     }
 
-    // Get current data hash
-    const elements = api.getSceneElements()
-    const currentHash = getDataHash(elements)
-
     // Only mark dirty if data actually changed from last save
-    if (currentHash !== lastSavedHashRef.current) {
+    if (changeTrackerRef.current!.update(elements, appState, files)) {
       setIsDirty(true)
 
+      // Keep a local copy that survives a crash before the save lands
+      if (draftTimerRef.current) {
+        clearTimeout(draftTimerRef.current)
+      }
+      draftTimerRef.current = setTimeout(() => {
+        draftTimerRef.current = null
+        const data = getExcalidrawData()
+        if (data) writeDraft(drawingRef.current.id, { ...data, fileRefs: drawingRef.current.data.fileRefs })
+      }, DRAFT_DELAY_MS)
+
       // Reset auto-save timer
       if (autoSaveTimerRef.current) {
         clearTimeout(autoSaveTimerRef.current)
       }
 
       if (autoSaveInterval > 0) {
-        autoSaveTimerRef.current = setTimeout(async () => {
+        autoSaveTimerRef.current = setTimeout(() => {
+          autoSaveTimerRef.current = null
           if (!isMountedRef.current) return
-
-          const data = getExcalidrawData()
-          if (data && onSaveRef.current) {
-            setIsSaving(true)
-            try {
-              // Generate thumbnail for auto-save too
-              const thumbnail = await generateThumbnailRef.current()
-
-              if (!isMountedRef.current) return
-
-              const result = await onSaveRef.current({
-                ...drawingRef.current,
-                data,
-                thumbnail: thumbnail || undefined,
-                // Include updated tags if provided
-                ...(tagsRef?.current ? { tags: tagsRef.current } : {}),
-              })
-
-              if (!isMountedRef.current) return
-
-              if (result) {
-                // Update saved hash
-                lastSavedHashRef.current = getDataHash(data.elements as readonly any[])
-                setIsDirty(false)
-                setLastSaved(new Date())
-              }
-            } catch (error) {
-              if (isMountedRef.current) {
-                logger.error('Auto-save failed:', error)
-              }
-            } finally {
-              if (isMountedRef.current) {
-                setIsSaving(false)
-              }
-            }
-          }
+          saveQueueRef.current?.run()
         }, autoSaveInterval)
       }
     }
-  }, [autoSaveInterval, getExcalidrawData, getDataHash])
-
-  // Forward declare generateThumbnail for use in saveNow
-  const generateThumbnailRef = useRef<() => Promise<string | null>>(() => Promise.resolve(null))
+  }, [autoSaveInterval, getExcalidrawData])
 
-  const saveNow = useCallback(async (): Promise<boolean> => {
+  /**
+   * One save of the current scene; run only through the save queue
+   * Throws when the save should be retried.
+   */
+  const performSave = useCallback(async (): Promise<boolean> => {
     if (!onSaveRef.current) {
-      logger.debug('saveNow: no onSave callback')
+      logger.debug('performSave: no onSave callback')
       return false
     }
 
     const data = getExcalidrawData()
     if (!data) {
-      logger.debug('saveNow: no data')
+      logger.debug('performSave: no data')
       return false
     }
+    const saved = fingerprintCanvas(excalidrawAPIRef.current!)
+
+    const result = await onSaveRef.current({
+      ...drawingRef.current,
+      data,
+      // Include updated tags if provided
+      ...(tagsRef?.current ? { tags: tagsRef.current } : {}),
+    })
+    logger.debug('performSave: save result', !!result)
+    if (!result || !isMountedRef.current) return !!result
+
+    // Edits made while the save ran are still unsaved
+    const tracker = changeTrackerRef.current!
+    tracker.reset(saved)
+    lastSavedViewRef.current = JSON.stringify(data.appState)
+    const api = excalidrawAPIRef.current
+    const stillDirty = !!api && tracker.update(api.getSceneElementsIncludingDeleted(), api.getAppState(), api.getFiles())
+    setIsDirty(stillDirty)
+    setLastSaved(new Date())
+    if (!stillDirty) dropDraft()
+    return true
+  }, [getExcalidrawData, fingerprintCanvas, dropDraft])
+
+  const performSaveRef = useRef(performSave)
+  performSaveRef.current = performSave
+
+  const saveQueueRef = useRef<SaveQueue | null>(null)
+  if (!saveQueueRef.current) {
+    saveQueueRef.current = new SaveQueue(() => performSaveRef.current(), (status) => {
+      if (isMountedRef.current) setSaveStatus(status)
+    })
+  }
 
-    logger.debug('saveNow: saving...')
-    setIsSaving(true)
+  useEffect(() => () => saveQueueRef.current?.dispose(), [])
 
-    // Clear any pending auto-save
+  const saveNow = useCallback(async (): Promise<boolean> => {
+    // The queued save covers any pending auto-save
     if (autoSaveTimerRef.current) {
       clearTimeout(autoSaveTimerRef.current)
       autoSaveTimerRef.current = null
     }
+    logger.debug('saveNow: queueing save')
+    return saveQueueRef.current!.run()
+  }, [])
 
-    try {
-      // Generate thumbnail
-      const thumbnail = await generateThumbnailRef.current()
-
-      const result = await onSaveRef.current({
-        ...drawingRef.current,
-        data,
-        thumbnail: thumbnail || undefined,
-        // Include updated tags if provided
-        ...(tagsRef?.current ? { tags: tagsRef.current } : {}),
-      })
-      logger.debug('saveNow: save result', !!result)
-      if (result) {
-        // Update saved hash so we know what was last saved
-        lastSavedHashRef.current = getDataHash(data.elements as readonly any[])
-        setIsDirty(false)
-        setLastSaved(new Date())
-        logger.debug('saveNow: isDirty set to false, hash updated')
-      }
-      return !!result
-    } catch (error) {
-      logger.error('Save failed:', error)
-      return false
-    } finally {
-      setIsSaving(false)
+  /**
+   * Retry a failed save, or one waiting out its backoff, right away
+   */
+  const retrySave = useCallback(() => {
+    if (saveStatus.state === 'retrying') {
+      saveQueueRef.current?.retryNow()
+    } else {
+      saveNow()
     }
-  }, [getExcalidrawData, getDataHash])
+  }, [saveStatus.state, saveNow])
 
-  const exportToSVG = useCallback(async (): Promise<string | null> => {
+  /**
+   * Replace the canvas with another version of the drawing
+   * The loaded scene counts as saved, so it doesn't trigger an autosave.
+   */
+  const loadScene = useCallback(async (next: Drawing) => {
     const api = excalidrawAPIRef.current
-    if (!api) return null
+    if (!api) return
 
-    try {
-      const { exportToSvg } = await import('@excalidraw/excalidraw')
-      const elements = api.getSceneElements()
-      const appState = api.getAppState()
-      const files = api.getFiles()
-
-      const svg = await exportToSvg({
-        elements,
-        appState: {
-          ...appState,
-          exportWithDarkMode: false,
-        },
-        files,
-      })
+    if (autoSaveTimerRef.current) {
+      clearTimeout(autoSaveTimerRef.current)
+      autoSaveTimerRef.current = null
+    }
 
-      return svg.outerHTML
-    } catch (error) {
-      logger.error('Export to SVG failed:', error)
-      return null
+    // The viewport stays where the user is; only the content changes
+    api.updateScene({ elements: next.data.elements })
+    changeTrackerRef.current!.reset(fingerprintCanvas(api))
+    setIsDirty(false)
+    dropDraft()
+
+    const fileRefs = next.data.fileRefs
+    if (fileRefs && Object.keys(fileRefs).length > 0) {
+      try {
+        const files = await drawingStore.loadFiles(fileRefs)
+        if (files.length > 0) {
+          api.addFiles(files)
+          changeTrackerRef.current!.acceptFiles(files.map((file) => file.id), api.getFiles())
+        }
+      } catch (error) {
+        logger.error('Failed to load files:', error)
+      }
     }
+  }, [fingerprintCanvas, dropDraft])
+
+  /**
+   * Put a recovery draft back on the canvas
+   * Unlike loadScene the result counts as unsaved, so autosave stores it.
+   */
+  const restoreDraft = useCallback((draft: Draft) => {
+    const api = excalidrawAPIRef.current
+    if (!api) return
+
+    const files = Object.values(draft.data.files ?? {})
+    if (files.length > 0) api.addFiles(files)
+    api.updateScene({
+      elements: draft.data.elements,
+      ...(draft.data.appState?.viewBackgroundColor
+        ? { appState: { viewBackgroundColor: draft.data.appState.viewBackgroundColor } }
+        : {}),
+    })
   }, [])
 
   /**
-   * Generate a thumbnail SVG for preview
+   * Render the current canvas as an image, unsaved edits included
+   * Throws if the chosen scope has nothing in it.
    */
-  const generateThumbnail = useCallback(async (): Promise<string | null> => {
+  const exportImage = useCallback(async (options: ImageExportOptions): Promise<Blob | null> => {
     const api = excalidrawAPIRef.current
     if (!api) return null
+    return renderImage(api.getSceneElementsIncludingDeleted(), api.getAppState(), api.getFiles(), options)
+  }, [])
 
-    try {
-      const { exportToSvg } = await import('@excalidraw/excalidraw')
-      const elements = api.getSceneElements()
-
-      // Skip if no elements
-      if (!elements || elements.length === 0) return null
-
-      const files = api.getFiles()
-
-      const svg = await exportToSvg({
-        elements,
-        appState: {
-          exportWithDarkMode: false,
-          exportBackground: true,
-          viewBackgroundColor: '#ffffff',
-        },
-        files,
-      })
-
-      // Convert to data URL
-      const svgString = svg.outerHTML
-      const dataUrl = `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svgString)))}`
-      return dataUrl
-    } catch (error) {
-      logger.error('Generate thumbnail failed:', error)
-      return null
+  /**
+   * What the export dialog can offer besides the whole scene
+   */
+  const getExportTargets = useCallback(() => {
+    const api = excalidrawAPIRef.current
+    if (!api) return { frames: [], hasSelection: false }
+    return {
+      frames: listFrames(api.getSceneElements()),
+      hasSelection: hasExportableSelection(api.getAppState()),
     }
   }, [])
 
-  // Update ref so saveNow can use it
-  generateThumbnailRef.current = generateThumbnail
+  const getExcalidrawAPI = useCallback(() => excalidrawAPIRef.current, [])
 
-  const exportToPNG = useCallback(async (): Promise<Blob | null> => {
+  /**
+   * Download the current canvas, unsaved edits included, as .excalidraw
+   */
+  const downloadScene = useCallback(async (filename: string = 'drawing') => {
     const api = excalidrawAPIRef.current
-    if (!api) return null
+    if (!api) return
 
     try {
-      const { exportToBlob } = await import('@excalidraw/excalidraw')
-      const elements = api.getSceneElements()
-      const appState = api.getAppState()
-      const files = api.getFiles()
-
-      const blob = await exportToBlob({
-        elements,
-        appState,
-        files,
-        mimeType: 'image/png',
-      })
-
-      return blob
+      await downloadExcalidrawFile(filename, api.getSceneElements(), api.getAppState(), api.getFiles())
     } catch (error) {
-      logger.error('Export to PNG failed:', error)
-      return null
+      logger.error('Export to .excalidraw failed:', error)
     }
   }, [])
 
-  const downloadImage = useCallback(async (filename: string = 'drawing') => {
-    const blob = await exportToPNG()
-    if (!blob) return
+  /**
+   * Download the current canvas, unsaved edits included, as a PDF with a
+   * page per frame
+   */
+  const exportPdf = useCallback(async (filename: string = 'drawing') => {
+    const api = excalidrawAPIRef.current
+    if (!api) return
 
-    const url = URL.createObjectURL(blob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = `${filename}.png`
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-    URL.revokeObjectURL(url)
-  }, [exportToPNG])
+    try {
+      await downloadPdf(filename, api.getSceneElements(), api.getAppState(), api.getFiles())
+    } catch (error) {
+      logger.error('Export to PDF failed:', error)
+      logseq.UI.showMsg(`PDF export failed: ${error instanceof Error ? error.message : String(error)}`, 'error')
+    }
+  }, [])
 
   return {
     isDirty,
     isSaving,
+    saveStatus,
+    retrySave,
     lastSaved,
     setExcalidrawAPI, // This can be used as the ref prop for <Excalidraw />
     excalidrawAPI: excalidrawAPIRef.current,
+    getExcalidrawAPI,
     handleChange,
+    hasUnsavedView,
+    saveView,
     saveNow,
-    exportToSVG,
-    exportToPNG,
-    exportToImage: exportToPNG,
-    downloadImage,
+    loadScene,
+    restoreDraft,
+    discardDraft: dropDraft,
+    exportImage,
+    getExportTargets,
+    downloadScene,
+    exportPdf,
   }
 }
@@ -0,0 +1,151 @@
+import { useState, useCallback } from 'react'
+import type { Drawing } from '../types'
+import { logger } from '../lib/logger'
+import {
+  drawingNameFromFile,
+  downloadExcalidrawFile,
+  downloadLibraryFile,
+  isExcalidrawFile,
+  isExcalidrawLibraryFile,
+  loadExcalidrawFile,
+  loadLibraryFile,
+} from '../lib/excalidrawFile'
+import { downloadPdf } from '../lib/exportPdf'
+import { scheduleThumbnail } from '../lib/thumbnail'
+import { drawingStore, shapeLibrary } from '../lib/store'
+import { getDefaultTags } from '../lib/settings'
+
+/**
+ * Import .excalidraw files as new drawings and export stored drawings
+ * to .excalidraw or PDF; import and export the shape library as
+ * .excalidrawlib
+ */
+export function useExcalidrawFiles() {
+  const [isImporting, setIsImporting] = useState(false)
+
+  const importFiles = useCallback(async (files: File[]): Promise<Drawing[]> => {
+    const scenes = files.filter(isExcalidrawFile)
+    if (scenes.length === 0) {
+      logseq.UI.showMsg('Only .excalidraw and .excalidrawlib files can be imported', 'warning')
+      return []
+    }
+
+    setIsImporting(true)
+    const imported: Drawing[] = []
+    const failed: string[] = []
+    try {
+      for (const file of scenes) {
+        try {
+          // Parse before creating, so a bad file leaves nothing behind
+          const data = await loadExcalidrawFile(file)
+          const created = await drawingStore.create(drawingNameFromFile(file), getDefaultTags())
+          const saved = await drawingStore.save({ ...created, data })
+          scheduleThumbnail(saved)
+          imported.push(saved)
+        } catch (error) {
+          logger.error('Failed to import .excalidraw file:', file.name, error)
+          failed.push(file.name)
+        }
+      }
+    } finally {
+      setIsImporting(false)
+    }
+
+    if (imported.length > 0) {
+      logseq.UI.showMsg(`Imported ${imported.length} drawing(s)`, 'success')
+    }
+    if (failed.length > 0) {
+      logseq.UI.showMsg(`Could not import ${failed.join(', ')}`, 'error')
+    }
+    return imported
+  }, [])
+
+  const exportDrawing = useCallback(async (id: string) => {
+    try {
+      const drawing = await drawingStore.get(id)
+      if (!drawing) {
+        logseq.UI.showMsg('Drawing not found', 'error')
+        return
+      }
+
+      const files = await drawingStore.loadSceneFiles(drawing.data)
+      await downloadExcalidrawFile(drawing.name, drawing.data.elements, drawing.data.appState ?? {}, files)
+    } catch (error) {
+      logger.error('Failed to export drawing:', error)
+      logseq.UI.showMsg('Export failed', 'error')
+    }
+  }, [])
+
+  const exportPdf = useCallback(async (id: string) => {
+    try {
+      const drawing = await drawingStore.get(id)
+      if (!drawing) {
+        logseq.UI.showMsg('Drawing not found', 'error')
+        return
+      }
+
+      const files = await drawingStore.loadSceneFiles(drawing.data)
+      await downloadPdf(drawing.name, drawing.data.elements, drawing.data.appState ?? {}, files)
+    } catch (error) {
+      logger.error('Failed to export drawing as PDF:', error)
+      logseq.UI.showMsg(`PDF export failed: ${error instanceof Error ? error.message : String(error)}`, 'error')
+    }
+  }, [])
+
+  /**
+   * Add the items of .excalidrawlib files to a shape library
+   * Items already in the library are skipped.
+   */
+  const importLibraryFiles = useCallback(async (files: File[], tag: string | null): Promise<number> => {
+    const libraries = files.filter(isExcalidrawLibraryFile)
+    if (libraries.length === 0) return 0
+
+    setIsImporting(true)
+    let added = 0
+    const failed: string[] = []
+    try {
+      const { mergeLibraryItems } = await import('@excalidraw/excalidraw')
+      for (const file of libraries) {
+        try {
+          const items = await loadLibraryFile(file)
+          await shapeLibrary.update(tag, (current) => {
+            const merged = mergeLibraryItems(current, items)
+            added += merged.length - current.length
+            return merged
+          })
+        } catch (error) {
+          logger.error('Failed to import .excalidrawlib file:', file.name, error)
+          failed.push(file.name)
+        }
+      }
+    } finally {
+      setIsImporting(false)
+    }
+
+    if (failed.length < libraries.length) {
+      const library = tag ? `the #${tag} shape library` : 'the shape library'
+      logseq.UI.showMsg(`Added ${added} shape(s) to ${library}`, 'success')
+    }
+    if (failed.length > 0) {
+      logseq.UI.showMsg(`Could not import ${failed.join(', ')}`, 'error')
+    }
+    return added
+  }, [])
+
+  const exportLibrary = useCallback(async (tag: string | null) => {
+    try {
+      const items = await shapeLibrary.load(tag)
+      if (items.length === 0) {
+        logseq.UI.showMsg('The shape library is empty', 'warning')
+        return
+      }
+      // Tags can contain characters file names can't
+      await downloadLibraryFile(tag ? `shapes-${tag.replace(/[\\/:*?"<>|]/g, '-')}` : 'shapes', items)
+    } catch (error) {
+      logger.error('Failed to export shape library:', error)
+      logseq.UI.showMsg('Export failed', 'error')
+    }
+  }, [])
+
+  return { isImporting, importFiles, exportDrawing, exportPdf, importLibraryFiles, exportLibrary }
+}
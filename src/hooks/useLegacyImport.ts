@@ -0,0 +1,88 @@
+import { useState, useCallback } from 'react'
+import { logger } from '../lib/logger'
+import { drawingStore } from '../lib/store'
+import { importLegacyDrawing, scanLegacyFolder } from '../lib/legacyImport'
+import type { LegacyDrawing } from '../lib/legacyImport'
+
+export interface LegacyImportResult {
+  imported: number
+  rewritten: number
+  failed: string[]  // paths that could not be imported
+}
+
+/**
+ * Scan a folder from the file-graph plugin and import the selected drawings
+ * Files whose name matches an existing drawing start deselected, so
+ * running the wizard twice doesn't duplicate a library.
+ */
+export function useLegacyImport() {
+  const [candidates, setCandidates] = useState<LegacyDrawing[] | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [existingNames, setExistingNames] = useState<Set<string>>(new Set())
+  const [result, setResult] = useState<LegacyImportResult | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const scan = useCallback(async (files: File[]) => {
+    setIsBusy(true)
+    setResult(null)
+    try {
+      const [found, drawings] = await Promise.all([scanLegacyFolder(files), drawingStore.listMeta()])
+      const names = new Set(drawings.map((d) => d.name))
+      setExistingNames(names)
+      setCandidates(found)
+      setSelected(new Set(found.filter((c) => !names.has(c.name)).map((c) => c.path)))
+      if (found.length === 0) {
+        logseq.UI.showMsg('No .excalidraw files found in that folder', 'warning')
+      }
+    } catch (error) {
+      logger.error('Legacy folder scan failed:', error)
+      logseq.UI.showMsg('Folder scan failed', 'error')
+    } finally {
+      setIsBusy(false)
+    }
+  }, [])
+
+  const toggle = useCallback((path: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+  }, [])
+
+  const runImport = useCallback(async (rewriteReferences: boolean) => {
+    if (!candidates) return
+    setIsBusy(true)
+    const summary: LegacyImportResult = { imported: 0, rewritten: 0, failed: [] }
+    try {
+      for (const candidate of candidates.filter((c) => selected.has(c.path))) {
+        try {
+          const { rewritten } = await importLegacyDrawing(candidate, rewriteReferences)
+          summary.imported++
+          summary.rewritten += rewritten
+        } catch (error) {
+          logger.error('Failed to import legacy drawing:', candidate.path, error)
+          summary.failed.push(candidate.path)
+        }
+      }
+      setResult(summary)
+      setCandidates(null)
+      setSelected(new Set())
+      logseq.UI.showMsg(
+        `Imported ${summary.imported} drawing(s), updated ${summary.rewritten} block(s)`,
+        summary.failed.length > 0 ? 'warning' : 'success'
+      )
+    } finally {
+      setIsBusy(false)
+    }
+  }, [candidates, selected])
+
+  const reset = useCallback(() => {
+    setCandidates(null)
+    setSelected(new Set())
+    setResult(null)
+  }, [])
+
+  return { candidates, selected, existingNames, result, isBusy, scan, toggle, runImport, reset }
+}
@@ -0,0 +1,96 @@
+import { useState, useCallback } from 'react'
+import { logger } from '../lib/logger'
+import { downloadBlob } from '../lib/utils'
+import { drawingStore, validateBackup } from '../lib/store'
+import type { CollisionMode, LibraryBackup } from '../lib/store'
+
+export interface PendingImport {
+  backup: LibraryBackup
+  fileName: string
+  collisions: string[]  // archived ids that already exist
+}
+
+/**
+ * Export the whole library to one archive and import it back
+ * Archives with id collisions wait in `pendingImport` until the user
+ * picks how to handle them.
+ */
+export function useLibraryBackup() {
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const exportLibrary = useCallback(async () => {
+    setIsBusy(true)
+    try {
+      const backup = await drawingStore.exportLibrary()
+      const date = new Date(backup.manifest.exportedAt).toISOString().slice(0, 10)
+      downloadBlob(
+        new Blob([JSON.stringify(backup)], { type: 'application/json' }),
+        `excalidraw-library-${date}.json`
+      )
+      logseq.UI.showMsg(`Exported ${backup.manifest.drawingCount} drawing(s)`, 'success')
+    } catch (error) {
+      logger.error('Library export failed:', error)
+      logseq.UI.showMsg('Library export failed', 'error')
+    } finally {
+      setIsBusy(false)
+    }
+  }, [])
+
+  const importLibrary = useCallback(async (backup: LibraryBackup, mode: CollisionMode) => {
+    setPendingImport(null)
+    setIsBusy(true)
+    try {
+      const { imported, skipped, overwritten, duplicated } = await drawingStore.importLibrary(backup, mode)
+      const parts = [`Imported ${imported + duplicated} drawing(s)`]
+      if (overwritten > 0) parts.push(`replaced ${overwritten}`)
+      if (skipped > 0) parts.push(`skipped ${skipped}`)
+      logseq.UI.showMsg(parts.join(', '), 'success')
+    } catch (error) {
+      logger.error('Library import failed:', error)
+      logseq.UI.showMsg('Library import failed', 'error')
+    } finally {
+      setIsBusy(false)
+    }
+  }, [])
+
+  /**
+   * Read and validate an archive; nothing is written until it passes
+   */
+  const openArchive = useCallback(async (file: File) => {
+    setIsBusy(true)
+    try {
+      let value: unknown
+      try {
+        value = JSON.parse(await file.text())
+      } catch {
+        logseq.UI.showMsg(`${file.name} is not a library archive`, 'error')
+        return
+      }
+
+      const validation = validateBackup(value)
+      if (!validation.ok) {
+        logger.warn('Invalid library archive:', validation.errors)
+        logseq.UI.showMsg(`Cannot import ${file.name}: ${validation.errors.join('; ')}`, 'error')
+        return
+      }
+
+      const { backup } = validation
+      const collisions = await drawingStore.findExisting(backup.drawings.map((d) => d.id))
+      if (collisions.length === 0) {
+        await importLibrary(backup, 'skip')
+        return
+      }
+      setPendingImport({ backup, fileName: file.name, collisions })
+    } catch (error) {
+      logger.error('Failed to read library archive:', error)
+      logseq.UI.showMsg('Failed to read library archive', 'error')
+    } finally {
+      setIsBusy(false)
+    }
+  }, [importLibrary])
+
+  const cancelImport = useCallback(() => setPendingImport(null), [])
+
+  return { isBusy, pendingImport, exportLibrary, openArchive, importLibrary, cancelImport }
+}
@@ -0,0 +1,57 @@
+import { useState, useCallback, useEffect } from 'react'
+import { logger } from '../lib/logger'
+import { drawingStore } from '../lib/store'
+import type { IntegrityReport } from '../lib/store'
+
+/**
+ * Run the library integrity scan and apply repairs
+ * Every repair re-scans so the report always reflects storage.
+ */
+export function useLibraryRepair() {
+  const [report, setReport] = useState<IntegrityReport | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const scan = useCallback(async () => {
+    setIsBusy(true)
+    try {
+      setReport(await drawingStore.checkIntegrity())
+    } catch (error) {
+      logger.error('Integrity check failed:', error)
+      logseq.UI.showMsg('Library scan failed', 'error')
+    } finally {
+      setIsBusy(false)
+    }
+  }, [])
+
+  const runRepair = useCallback(async (repair: () => Promise<unknown>, message: string) => {
+    setIsBusy(true)
+    try {
+      await repair()
+      logseq.UI.showMsg(message, 'success')
+    } catch (error) {
+      logger.error('Repair failed:', error)
+      logseq.UI.showMsg('Repair failed', 'error')
+    } finally {
+      setIsBusy(false)
+    }
+    await scan()
+  }, [scan])
+
+  const reindexOrphans = useCallback((ids: string[]) =>
+    runRepair(() => drawingStore.reindexOrphans(ids), `Re-indexed ${ids.length} drawing(s)`), [runRepair])
+
+  const quarantine = useCallback((ids: string[]) =>
+    runRepair(() => drawingStore.quarantine(ids), `Quarantined ${ids.length} drawing(s)`), [runRepair])
+
+  const dropInvalidElements = useCallback((ids: string[]) =>
+    runRepair(() => drawingStore.dropInvalidElements(ids), `Dropped invalid elements from ${ids.length} drawing(s)`), [runRepair])
+
+  const removeMissing = useCallback((ids: string[]) =>
+    runRepair(() => drawingStore.removeIndexEntries(ids), `Removed ${ids.length} dangling entr${ids.length === 1 ? 'y' : 'ies'}`), [runRepair])
+
+  useEffect(() => {
+    scan()
+  }, [scan])
+
+  return { report, isBusy, scan, reindexOrphans, quarantine, dropInvalidElements, removeMissing }
+}
@@ -1,158 +1,76 @@
-import { useCallback, useRef } from 'react'
-import type { Drawing } from '../types'
+import { useCallback } from 'react'
+import type { Drawing, DrawingMeta } from '../types'
 import { logger } from '../lib/logger'
-import { generateId, getCurrentTimestamp } from '../lib/utils'
+import { scheduleThumbnail } from '../lib/thumbnail'
+import { scheduleLinkedExport } from '../lib/assetExport'
+import { ConflictError, drawingStore } from '../lib/store'
+import type { SaveOptions } from '../lib/store'
 
-// Use plugin sandbox storage for DB version
-// This works reliably across both file and DB graphs
+// All storage access goes through the shared DrawingStore so the
+// block renderer, command palette and UI see the same cached data
 
 export function useLogseq() {
-  // Cache storage instance
-  const storageRef = useRef<ReturnType<typeof logseq.Assets.makeSandboxStorage> | null>(null)
-
-  const getStorage = useCallback(() => {
-    if (!storageRef.current) {
-      storageRef.current = logseq.Assets.makeSandboxStorage()
-    }
-    return storageRef.current
-  }, [])
-
-  /**
-   * Get drawings index from storage
-   */
-  const getIndex = useCallback(async (): Promise<string[]> => {
-    try {
-      const storage = getStorage()
-      const indexStr = await storage.getItem('drawings-index')
-      return indexStr ? JSON.parse(indexStr) : []
-    } catch (e) {
-      logger.error('Failed to get index:', e)
-      return []
-    }
-  }, [getStorage])
-
   /**
-   * Save drawings index to storage
+   * Load metadata for all Excalidraw drawings (scenes are not parsed)
    */
-  const saveIndex = useCallback(async (index: string[]) => {
+  const loadDrawings = useCallback(async (): Promise<DrawingMeta[]> => {
     try {
-      const storage = getStorage()
-      await storage.setItem('drawings-index', JSON.stringify(index))
-    } catch (e) {
-      logger.error('Failed to save index:', e)
-    }
-  }, [getStorage])
-
-  /**
-   * Load all Excalidraw drawings
-   */
-  const loadDrawings = useCallback(async (): Promise<Drawing[]> => {
-    try {
-      const storage = getStorage()
-      const index = await getIndex()
-
-      if (index.length === 0) {
+      const drawings = await drawingStore.listMeta()
+      if (drawings.length === 0) {
         logger.debug('No drawings found')
-        return []
-      }
-
-      const drawings: Drawing[] = []
-
-      for (const id of index) {
-        try {
-          const drawingStr = await storage.getItem(`drawing-${id}`)
-          if (drawingStr) {
-            const drawing = JSON.parse(drawingStr)
-            drawings.push(drawing)
-          }
-        } catch (e) {
-          logger.warn('Failed to parse drawing:', id, e)
-        }
       }
-
-      return drawings.sort((a, b) => b.updatedAt - a.updatedAt)
+      return drawings
     } catch (error) {
       logger.error('Failed to load drawings:', error)
       return []
     }
-  }, [getStorage, getIndex])
+  }, [])
 
   /**
    * Load a specific drawing by ID
    */
   const loadDrawing = useCallback(async (id: string): Promise<Drawing | null> => {
     try {
-      const storage = getStorage()
-      const drawingStr = await storage.getItem(`drawing-${id}`)
-
-      if (!drawingStr) {
+      const drawing = await drawingStore.get(id)
+      if (!drawing) {
         logger.warn('Drawing not found:', id)
-        return null
       }
-
-      return JSON.parse(drawingStr)
+      return drawing
     } catch (error) {
       logger.error('Failed to load drawing:', error)
       return null
     }
-  }, [getStorage])
+  }, [])
 
   /**
    * Create a new Excalidraw drawing
-   * Also creates a Logseq page with the renderer macro for CMD+K searchability
    */
   const createDrawing = useCallback(async (name: string, tag?: string): Promise<Drawing | null> => {
     try {
-      const storage = getStorage()
-      const id = generateId()
-      const now = getCurrentTimestamp()
-
-      const drawing: Drawing = {
-        id,
-        name,
-        tags: tag ? [tag] : [],
-        data: { elements: [], files: undefined },
-        createdAt: now,
-        updatedAt: now,
-      }
-
-      // Save drawing to plugin storage
-      await storage.setItem(`drawing-${id}`, JSON.stringify(drawing))
-
-      // Update index
-      const index = await getIndex()
-      index.unshift(id)
-      await saveIndex(index)
-
-      logger.debug('Created drawing:', id, name)
-      return drawing
+      return await drawingStore.create(name, tag ? [tag] : [])
     } catch (error) {
       logger.error('Failed to create drawing:', error)
       return null
     }
-  }, [getStorage, getIndex, saveIndex])
+  }, [])
 
   /**
    * Save drawing data
+   * Errors are rethrown: ConflictError so the caller can offer to resolve
+   * it, anything else so the editor's save queue can retry.
    */
-  const saveDrawing = useCallback(async (drawing: Drawing): Promise<Drawing | null> => {
+  const saveDrawing = useCallback(async (drawing: Drawing, options?: SaveOptions): Promise<Drawing> => {
     try {
-      const storage = getStorage()
-      const now = getCurrentTimestamp()
-
-      const updatedDrawing: Drawing = {
-        ...drawing,
-        updatedAt: now,
-      }
-
-      await storage.setItem(`drawing-${drawing.id}`, JSON.stringify(updatedDrawing))
-      logger.debug('Saved drawing:', drawing.id)
-      return updatedDrawing
+      const saved = await drawingStore.save(drawing, options)
+      // Preview and linked export are rendered in the background once the save is in
+      scheduleThumbnail(saved)
+      scheduleLinkedExport(saved)
+      return saved
     } catch (error) {
-      logger.error('Failed to save drawing:', error)
-      return null
+      if (!(error instanceof ConflictError)) logger.error('Failed to save drawing:', error)
+      throw error
     }
-  }, [getStorage])
+  }, [])
 
   /**
    * Update drawing metadata (name, tag)
@@ -160,55 +78,101 @@ export function useLogseq() {
   const updateDrawingMeta = useCallback(async (
     id: string,
     updates: { name?: string; tags?: string[] }
-  ): Promise<Drawing | null> => {
+  ): Promise<DrawingMeta | null> => {
     try {
-      const storage = getStorage()
-      const drawingStr = await storage.getItem(`drawing-${id}`)
-
-      if (!drawingStr) {
-        logger.warn('Drawing not found:', id)
-        return null
-      }
-
-      const drawing = JSON.parse(drawingStr) as Drawing
-      const updatedDrawing: Drawing = {
-        ...drawing,
-        name: updates.name ?? drawing.name,
-        tags: updates.tags ?? drawing.tags,
-        updatedAt: getCurrentTimestamp(),
-      }
-
-      await storage.setItem(`drawing-${id}`, JSON.stringify(updatedDrawing))
-      logger.debug('Updated drawing meta:', id)
-      return updatedDrawing
+      return await drawingStore.updateMeta(id, updates)
     } catch (error) {
       logger.error('Failed to update drawing meta:', error)
       return null
     }
-  }, [getStorage])
+  }, [])
 
   /**
-   * Delete a drawing
+   * Load metadata for drawings in the Trash
    */
-  const deleteDrawing = useCallback(async (id: string): Promise<boolean> => {
+  const loadTrash = useCallback(async (): Promise<DrawingMeta[]> => {
     try {
-      const storage = getStorage()
+      return await drawingStore.listTrash()
+    } catch (error) {
+      logger.error('Failed to load trash:', error)
+      return []
+    }
+  }, [])
 
-      // Remove from storage
-      await storage.removeItem(`drawing-${id}`)
+  /**
+   * Move a drawing to the Trash
+   */
+  const trashDrawing = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await drawingStore.trash(id)
+      return true
+    } catch (error) {
+      logger.error('Failed to move drawing to trash:', error)
+      return false
+    }
+  }, [])
 
-      // Update index
-      const index = await getIndex()
-      const newIndex = index.filter((i) => i !== id)
-      await saveIndex(newIndex)
+  /**
+   * Restore a drawing from the Trash
+   */
+  const restoreDrawing = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await drawingStore.restore(id)
+      return true
+    } catch (error) {
+      logger.error('Failed to restore drawing:', error)
+      return false
+    }
+  }, [])
 
-      logger.debug('Deleted drawing:', id)
+  /**
+   * Permanently delete a drawing
+   */
+  const deleteDrawing = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await drawingStore.delete(id)
       return true
     } catch (error) {
       logger.error('Failed to delete drawing:', error)
       return false
     }
-  }, [getStorage, getIndex, saveIndex])
+  }, [])
+
+  /**
+   * Upgrade every drawing stored in an older schema version
+   */
+  const migrateAllDrawings = useCallback(async (): Promise<number> => {
+    try {
+      return await drawingStore.migrateAll()
+    } catch (error) {
+      logger.error('Failed to migrate drawings:', error)
+      return 0
+    }
+  }, [])
+
+  /**
+   * Make a history snapshot the current version of a drawing
+   */
+  const restoreSnapshot = useCallback(async (id: string, snapshotId: string): Promise<Drawing | null> => {
+    try {
+      return await drawingStore.restoreSnapshot(id, snapshotId)
+    } catch (error) {
+      logger.error('Failed to restore snapshot:', error)
+      return null
+    }
+  }, [])
+
+  /**
+   * Copy a history snapshot into a new drawing
+   */
+  const forkSnapshot = useCallback(async (id: string, snapshotId: string, name: string): Promise<Drawing | null> => {
+    try {
+      return await drawingStore.forkSnapshot(id, snapshotId, name)
+    } catch (error) {
+      logger.error('Failed to fork snapshot:', error)
+      return null
+    }
+  }, [])
 
   /**
    * Insert drawing reference into current block
@@ -233,7 +197,13 @@ export function useLogseq() {
     createDrawing,
     saveDrawing,
     updateDrawingMeta,
+    loadTrash,
+    trashDrawing,
+    restoreDrawing,
     deleteDrawing,
+    migrateAllDrawings,
+    restoreSnapshot,
+    forkSnapshot,
     insertDrawingReference,
   }
 }
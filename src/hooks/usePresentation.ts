@@ -0,0 +1,122 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import type { AppState, ExcalidrawImperativeAPI } from '@excalidraw/excalidraw/types/types'
+import { logger } from '../lib/logger'
+import { orderSlides, renderSlidePreview, slideName } from '../lib/presentation'
+import type { Slide } from '../lib/presentation'
+
+// Share of the screen a slide fills, and how long moving to it takes
+const SLIDE_ZOOM_FACTOR = 0.95
+const SLIDE_TRANSITION_MS = 400
+
+type PresentedView = Pick<AppState, 'scrollX' | 'scrollY' | 'zoom' | 'frameRendering'>
+
+export interface SlideInfo {
+  id: string
+  name: string
+}
+
+/**
+ * Step through a drawing's frames as slides while presenting
+ * The viewport and frame rendering are put back when the presentation ends.
+ */
+export function usePresentation(getAPI: () => ExcalidrawImperativeAPI | null, isActive: boolean) {
+  const [slides, setSlides] = useState<Slide[]>([])
+  const [index, setIndex] = useState(0)
+  const [isOverviewOpen, setIsOverviewOpen] = useState(false)
+  const [isLaserOn, setIsLaserOn] = useState(false)
+
+  useEffect(() => {
+    if (!isActive) return
+    const api = getAPI()
+    if (!api) return
+
+    const { scrollX, scrollY, zoom, frameRendering } = api.getAppState()
+    const before: PresentedView = { scrollX, scrollY, zoom, frameRendering }
+
+    setSlides(orderSlides(api.getSceneElements()))
+    setIndex(0)
+    setIsOverviewOpen(false)
+    setIsLaserOn(false)
+    // Slides show their content only: no frame names or outlines
+    api.updateScene({ appState: { frameRendering: { ...frameRendering, name: false, outline: false, clip: true } } })
+    document.documentElement.requestFullscreen?.().catch((error) => {
+      logger.debug('Full screen not available:', error)
+    })
+
+    return () => {
+      api.setActiveTool({ type: 'selection' })
+      api.updateScene({ appState: before })
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => { })
+    }
+  }, [isActive, getAPI])
+
+  const current = slides[index]
+
+  useEffect(() => {
+    if (!isActive || !current) return
+    const show = (animate: boolean) => getAPI()?.scrollToContent(current, {
+      fitToViewport: true,
+      viewportZoomFactor: SLIDE_ZOOM_FACTOR,
+      animate,
+      duration: SLIDE_TRANSITION_MS,
+    })
+    show(true)
+
+    // Going full screen resizes the canvas after the first zoom
+    const refit = () => show(false)
+    window.addEventListener('resize', refit)
+    return () => window.removeEventListener('resize', refit)
+  }, [isActive, current, getAPI])
+
+  const goTo = useCallback((target: number) => {
+    setIndex(Math.max(0, Math.min(target, slides.length - 1)))
+    setIsOverviewOpen(false)
+  }, [slides.length])
+
+  const next = useCallback(() => {
+    setIndex((i) => Math.min(i + 1, slides.length - 1))
+  }, [slides.length])
+
+  const prev = useCallback(() => {
+    setIndex((i) => Math.max(i - 1, 0))
+  }, [])
+
+  const toggleOverview = useCallback(() => {
+    setIsOverviewOpen((open) => !open)
+  }, [])
+
+  const toggleLaser = useCallback(() => {
+    getAPI()?.setActiveTool({ type: isLaserOn ? 'selection' : 'laser' })
+    setIsLaserOn(!isLaserOn)
+  }, [getAPI, isLaserOn])
+
+  const loadPreview = useCallback(async (slideId: string): Promise<string | null> => {
+    const api = getAPI()
+    const slide = slides.find((s) => s.id === slideId)
+    if (!api || !slide) return null
+    try {
+      return await renderSlidePreview(api.getSceneElements(), slide, api.getAppState(), api.getFiles())
+    } catch (error) {
+      logger.warn('Failed to render slide preview:', slideId, error)
+      return null
+    }
+  }, [getAPI, slides])
+
+  const slideInfo = useMemo<SlideInfo[]>(
+    () => slides.map((slide, i) => ({ id: slide.id, name: slideName(slide, i) })),
+    [slides]
+  )
+
+  return {
+    slides: slideInfo,
+    index,
+    isOverviewOpen,
+    isLaserOn,
+    goTo,
+    next,
+    prev,
+    toggleOverview,
+    toggleLaser,
+    loadPreview,
+  }
+}
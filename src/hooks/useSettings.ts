@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react'
+import { getSettings, onSettingsChange } from '../lib/settings'
+import type { PluginSettings } from '../lib/settings'
+
+/**
+ * Plugin settings that re-render the component when the user edits them
+ */
+export function useSettings(): PluginSettings {
+  const [settings, setSettings] = useState<PluginSettings>(getSettings)
+
+  useEffect(() => onSettingsChange(setSettings), [])
+
+  return settings
+}
@@ -0,0 +1,46 @@
+import { useState, useCallback, useRef } from 'react'
+import type { LibraryItems } from '@excalidraw/excalidraw/types/types'
+import { logger } from '../lib/logger'
+import { mergeLibraryEdits, shapeLibrary } from '../lib/store'
+
+/**
+ * Load the editor's shape library and save it whenever it changes
+ * `tag` picks a per-tag library; null is the one shared by all drawings.
+ */
+export function useShapeLibrary(tag: string | null) {
+  // Items as this window last loaded or saved them; null until loaded, so
+  // nothing is saved over a library that hasn't been read (or couldn't be)
+  const baseRef = useRef<LibraryItems | null>(null)
+
+  const [initialItems] = useState(() =>
+    shapeLibrary.load(tag)
+      .then((items) => {
+        baseRef.current = items
+        return items
+      })
+      .catch((error): LibraryItems => {
+        logger.error('Failed to load shape library:', tag, error)
+        logseq.UI.showMsg('Could not load the shape library; changes to it won\'t be saved', 'error')
+        return []
+      })
+  )
+
+  const handleLibraryChange = useCallback(async (items: LibraryItems) => {
+    const base = baseRef.current
+    if (base === null) return
+    // Excalidraw also reports the items it was given on load
+    if (JSON.stringify(items) === JSON.stringify(base)) return
+
+    baseRef.current = items
+    try {
+      // Other windows may have changed the library since; merge under the lock
+      const stored = await shapeLibrary.update(tag, (current) => mergeLibraryEdits(base, items, current))
+      logger.debug('Shape library saved:', tag ?? 'shared', stored.length)
+    } catch (error) {
+      logger.error('Failed to save shape library:', error)
+      logseq.UI.showMsg('Failed to save the shape library', 'error')
+    }
+  }, [tag])
+
+  return { initialItems, handleLibraryChange }
+}
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react'
+import type { DrawingMeta } from '../types'
+import { logger } from '../lib/logger'
+import { drawingStore } from '../lib/store'
+
+/**
+ * Lazily load a drawing's thumbnail from the store
+ * Reloads when the drawing or its preview is updated.
+ */
+export function useThumbnail(meta: DrawingMeta) {
+  const [thumbnail, setThumbnail] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!meta.thumbnailKey) {
+      setThumbnail(null)
+      return
+    }
+
+    let cancelled = false
+    drawingStore.getThumbnail(meta.id)
+      .then((url) => {
+        if (!cancelled) setThumbnail(url)
+      })
+      .catch((e) => logger.warn('Failed to load thumbnail:', meta.id, e))
+
+    return () => {
+      cancelled = true
+    }
+  }, [meta.id, meta.thumbnailKey, meta.thumbnailHash, meta.updatedAt])
+
+  return thumbnail
+}
@@ -0,0 +1,163 @@
+/**
+ * Drawings as image files in the graph
+ *
+ * Published graphs and the mobile app can't run the renderer macro, so a
+ * drawing can also be written to the graph's assets as SVG or PNG and
+ * shown by a plain image block right after each block that references
+ * it. In linked mode the file is rewritten after every save.
+ *
+ * Files go to the graph's assets/storages/<plugin-id>/exports/ through the
+ * plugin's sandbox storage, next to (but outside of) the drawing store's
+ * keys, so they sync and publish with the graph. They are removed when
+ * the drawing is permanently deleted.
+ */
+
+import type { BlockEntity } from '@logseq/libs/dist/LSPlugin'
+import type { LSPluginFileStorage } from '@logseq/libs/dist/modules/LSPlugin.Storage'
+import type { Drawing, DrawingMeta } from '../types'
+import { logger } from './logger'
+import { BackgroundQueue } from './backgroundQueue'
+import { DEFAULT_EXPORT_OPTIONS, renderImage } from './exportImage'
+import type { ExportFormat, ImageExportOptions } from './exportImage'
+import { findBlocksMentioning } from './plugin'
+import { drawingStore } from './store'
+
+const EXPORT_DIR = 'exports'
+const FORMATS: ExportFormat[] = ['svg', 'png']
+
+// PNGs at 2x so they stay sharp on high-density screens
+const ASSET_OPTIONS: Record<ExportFormat, ImageExportOptions> = {
+  svg: { ...DEFAULT_EXPORT_OPTIONS, format: 'svg', scale: 1 },
+  png: { ...DEFAULT_EXPORT_OPTIONS, format: 'png', scale: 2 },
+}
+
+// Typed as string-only, but the sandbox is a file storage that takes bytes too
+let storage: LSPluginFileStorage | null = null
+
+function assets() {
+  if (!storage) storage = logseq.Assets.makeSandboxStorage() as LSPluginFileStorage
+  return storage
+}
+
+function assetFileName(drawingId: string): string {
+  return `excalidraw-${drawingId}`
+}
+
+function assetKey(drawingId: string, format: ExportFormat): string {
+  return `${EXPORT_DIR}/${assetFileName(drawingId)}.${format}`
+}
+
+/**
+ * Path of an exported file as written in a block, relative to the graph,
+ * so published graphs, mobile and other machines resolve it too
+ */
+function assetPath(drawingId: string, format: ExportFormat): string {
+  return `../assets/storages/${logseq.baseInfo.id}/${assetKey(drawingId, format)}`
+}
+
+function assetImageMarkdown(drawing: Pick<Drawing, 'id' | 'name'>, format: ExportFormat): string {
+  const alt = drawing.name.replace(/[[\]]/g, '')
+  return `![${alt}](${assetPath(drawing.id, format)})`
+}
+
+/**
+ * Whether a block is the image block of a drawing's export, in any format
+ */
+function isAssetImageBlock(content: string | undefined, drawingId: string): boolean {
+  return !!content && content.includes(`/${EXPORT_DIR}/${assetFileName(drawingId)}.`)
+}
+
+async function writeAsset(drawing: Drawing, format: ExportFormat) {
+  const files = await drawingStore.loadSceneFiles(drawing.data)
+  const blob = await renderImage(drawing.data.elements, drawing.data.appState ?? {}, files, ASSET_OPTIONS[format])
+  // SVG is stored as text; PNG bytes go over the bridge as a typed array
+  const value = format === 'svg' ? await blob.text() : new Uint8Array(await blob.arrayBuffer())
+  await assets().setItem(assetKey(drawing.id, format), value)
+}
+
+function blockContent(block: BlockEntity): string | undefined {
+  return (block as { title?: string }).title ?? block.content
+}
+
+/**
+ * The image block a reference owns: its following sibling, or a child
+ * if that block was indented under the reference
+ * Other references on the page keep their own image blocks.
+ */
+async function findOwnImageBlock(referenceUuid: string, drawingId: string): Promise<BlockEntity | null> {
+  const next = await logseq.Editor.getNextSiblingBlock(referenceUuid)
+  if (next && isAssetImageBlock(blockContent(next), drawingId)) return next
+
+  const reference = await logseq.Editor.getBlock(referenceUuid, { includeChildren: true })
+  for (const child of reference?.children ?? []) {
+    if (Array.isArray(child)) continue  // a [uuid] stub, not loaded
+    if (isAssetImageBlock(blockContent(child), drawingId)) return child
+  }
+  return null
+}
+
+/**
+ * Put the image block after every block referencing the drawing
+ * Returns the number of blocks inserted or changed.
+ */
+async function syncImageBlocks(drawing: Drawing, format: ExportFormat): Promise<number> {
+  const markdown = assetImageMarkdown(drawing, format)
+  const references = await findBlocksMentioning(`{{renderer excalidraw, ${drawing.id}}}`)
+  let changed = 0
+
+  for (const reference of references) {
+    const existing = await findOwnImageBlock(reference.uuid, drawing.id)
+    if (existing) {
+      if (blockContent(existing) === markdown) continue
+      await logseq.Editor.updateBlock(existing.uuid, markdown)
+    } else {
+      await logseq.Editor.insertBlock(reference.uuid, markdown, { sibling: true, before: false })
+    }
+    changed++
+  }
+  return changed
+}
+
+/**
+ * Write a drawing to the graph's assets and show it next to its references
+ * Returns how many image blocks were inserted or updated.
+ */
+export async function exportToAssets(drawing: Drawing, format: ExportFormat): Promise<number> {
+  await writeAsset(drawing, format)
+  const changed = await syncImageBlocks(drawing, format)
+  logger.debug('Exported to assets:', drawing.id, format, 'blocks changed:', changed)
+  return changed
+}
+
+/**
+ * Turn linked export on (re-export after every save) or off
+ */
+export async function setLinkedExport(drawingId: string, format: ExportFormat | null): Promise<DrawingMeta | null> {
+  return drawingStore.setLinkedExport(drawingId, format)
+}
+
+/**
+ * Remove a drawing's exported files, in every format
+ * Image blocks pointing at them are left for the user to delete.
+ */
+export async function removeExportedAssets(drawingId: string) {
+  for (const format of FORMATS) {
+    const key = assetKey(drawingId, format)
+    if (await assets().hasItem(key)) await assets().removeItem(key)
+  }
+}
+
+async function updateLinkedExport(drawing: Drawing) {
+  const meta = await drawingStore.getMeta(drawing.id)
+  if (!meta?.linkedExport || meta.deletedAt) return
+  await exportToAssets(drawing, meta.linkedExport)
+}
+
+const queue = new BackgroundQueue<Drawing>('linked export', updateLinkedExport)
+
+/**
+ * Re-export a just-saved drawing if it is in linked mode
+ */
+export function scheduleLinkedExport(drawing: Drawing) {
+  queue.schedule(drawing.id, drawing)
+}
@@ -0,0 +1,54 @@
+/**
+ * Background work per drawing
+ *
+ * Jobs run one at a time, each when the browser is next idle, so they
+ * never compete with the editor. Scheduling a drawing that is still
+ * waiting replaces its job: only the latest version is processed.
+ */
+
+import { logger } from './logger'
+
+// Longest a queued job waits for the browser to be idle
+const IDLE_TIMEOUT_MS = 2000
+
+function whenIdle(): Promise<void> {
+  return new Promise((resolve) => {
+    if ('requestIdleCallback' in window) {
+      window.requestIdleCallback(() => resolve(), { timeout: IDLE_TIMEOUT_MS })
+    } else {
+      setTimeout(resolve, 0)
+    }
+  })
+}
+
+export class BackgroundQueue<T> {
+  private pending = new Map<string, T>()
+  private worker: Promise<void> | null = null
+
+  constructor(private name: string, private process: (item: T) => Promise<void>) { }
+
+  schedule(key: string, item: T) {
+    this.pending.set(key, item)
+    if (!this.worker) this.start()
+  }
+
+  private start() {
+    this.worker = this.drain().finally(() => {
+      this.worker = null
+      // Scheduled between the last job and the loop ending
+      if (this.pending.size > 0) this.start()
+    })
+  }
+
+  private async drain() {
+    for (const [key, item] of this.pending) {
+      this.pending.delete(key)
+      await whenIdle()
+      try {
+        await this.process(item)
+      } catch (error) {
+        logger.warn(`Background ${this.name} failed:`, key, error)
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types'
+import type { AppState, BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import { ChangeTracker, fingerprintScene } from './changeTracker'
+
+function element(id: string, version = 1, versionNonce = 7): ExcalidrawElement {
+  return { id, version, versionNonce } as unknown as ExcalidrawElement
+}
+
+const APP_STATE = { viewBackgroundColor: '#fff', scrollX: 0, zoom: { value: 1 } } as unknown as Partial<AppState>
+const FILES: BinaryFiles = {}
+
+function tracking(elements: ExcalidrawElement[], appState = APP_STATE, files = FILES) {
+  const tracker = new ChangeTracker()
+  tracker.reset(fingerprintScene(elements, appState, files))
+  return tracker
+}
+
+describe('ChangeTracker', () => {
+  it('stays clean while nothing changed', () => {
+    const tracker = tracking([element('a')])
+    expect(tracker.update([element('a')], { ...APP_STATE }, FILES)).toBe(false)
+  })
+
+  it('ignores the viewport', () => {
+    const tracker = tracking([element('a')])
+    const moved = { ...APP_STATE, scrollX: 300, zoom: { value: 2 } } as unknown as Partial<AppState>
+    expect(tracker.update([element('a')], moved, FILES)).toBe(false)
+  })
+
+  it.each([
+    ['an edited element', [element('a', 2, 9)], APP_STATE],
+    ['an added element', [element('a'), element('b')], APP_STATE],
+    ['a changed preference', [element('a')], { ...APP_STATE, viewBackgroundColor: '#000' }],
+  ])('turns dirty on %s', (_, elements, appState) => {
+    const tracker = tracking([element('a')])
+    expect(tracker.update(elements, appState, FILES)).toBe(true)
+  })
+
+  it('catches an edit that keeps the version sum', () => {
+    const tracker = tracking([element('a', 2, 1), element('b', 1, 2)])
+    expect(tracker.update([element('a', 1, 5), element('b', 2, 2)], APP_STATE, FILES)).toBe(true)
+  })
+
+  it('turns dirty on a new file but not on files loaded from storage', () => {
+    const tracker = tracking([element('a')])
+    const loaded = { img: {} } as unknown as BinaryFiles
+    tracker.acceptFiles(['img'], loaded)
+    expect(tracker.update([element('a')], APP_STATE, loaded)).toBe(false)
+
+    const pasted = { ...loaded, other: {} } as unknown as BinaryFiles
+    expect(tracker.update([element('a')], APP_STATE, pasted)).toBe(true)
+  })
+
+  it('stays dirty until reset', () => {
+    const tracker = tracking([element('a')])
+    tracker.update([element('a', 2, 9)], APP_STATE, FILES)
+
+    expect(tracker.update([element('a')], APP_STATE, FILES)).toBe(true)
+    tracker.reset(fingerprintScene([element('a')], APP_STATE, FILES))
+    expect(tracker.isDirty()).toBe(false)
+  })
+
+  it('is never dirty before the first reset', () => {
+    expect(new ChangeTracker().update([element('a')], APP_STATE, FILES)).toBe(false)
+  })
+})
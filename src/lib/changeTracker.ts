@@ -0,0 +1,117 @@
+/**
+ * Scene change tracking
+ *
+ * Excalidraw calls onChange on every pointer move, so telling whether the
+ * scene still matches what was last saved has to be cheap:
+ * - elements by a fingerprint of their versions (every edit bumps an
+ *   element's version and rerolls its versionNonce)
+ * - files by their ids, looked at only when the files object changes
+ * - appState by the persisted preferences, viewport excluded
+ * Once the scene is dirty nothing is compared until the next save.
+ */
+
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types'
+import type { AppState, BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import { PERSISTED_KEYS, VIEWPORT_KEYS } from './viewState'
+
+const TRACKED_KEYS = PERSISTED_KEYS.filter(
+  (key) => !(VIEWPORT_KEYS as readonly string[]).includes(key)
+)
+
+export interface SceneFingerprint {
+  elementCount: number
+  versionSum: number
+  nonceXor: number
+  files: BinaryFiles
+  fileIds: Set<string>
+  appState: Partial<AppState>
+}
+
+function elementVersions(elements: readonly ExcalidrawElement[]) {
+  let versionSum = 0
+  let nonceXor = 0
+  for (const element of elements) {
+    versionSum += element.version
+    nonceXor ^= element.versionNonce
+  }
+  return { versionSum, nonceXor }
+}
+
+/**
+ * Fingerprint a scene; elements must include deleted ones
+ */
+export function fingerprintScene(
+  elements: readonly ExcalidrawElement[],
+  appState: Partial<AppState>,
+  files: BinaryFiles
+): SceneFingerprint {
+  const tracked: Record<string, unknown> = {}
+  for (const key of TRACKED_KEYS) tracked[key] = appState[key]
+
+  return {
+    elementCount: elements.length,
+    ...elementVersions(elements),
+    files,
+    fileIds: new Set(Object.keys(files)),
+    appState: tracked as Partial<AppState>,
+  }
+}
+
+function elementsDiffer(base: SceneFingerprint, elements: readonly ExcalidrawElement[]): boolean {
+  if (elements.length !== base.elementCount) return true
+  const { versionSum, nonceXor } = elementVersions(elements)
+  return versionSum !== base.versionSum || nonceXor !== base.nonceXor
+}
+
+function filesDiffer(base: SceneFingerprint, files: BinaryFiles): boolean {
+  // Excalidraw replaces the files object whenever a file is added
+  if (files === base.files) return false
+  const ids = Object.keys(files)
+  return ids.length !== base.fileIds.size || ids.some((id) => !base.fileIds.has(id))
+}
+
+function appStateDiffers(base: SceneFingerprint, appState: Partial<AppState>): boolean {
+  // All tracked values are primitives
+  return TRACKED_KEYS.some((key) => appState[key] !== base.appState[key])
+}
+
+export class ChangeTracker {
+  private baseline: SceneFingerprint | null = null
+  private dirty = false
+
+  /**
+   * Take a saved (or freshly loaded) scene as the new reference
+   */
+  reset(baseline: SceneFingerprint) {
+    this.baseline = baseline
+    this.dirty = false
+  }
+
+  /**
+   * Count files loaded from storage as saved
+   */
+  acceptFiles(ids: string[], files: BinaryFiles) {
+    if (!this.baseline) return
+    this.baseline = {
+      ...this.baseline,
+      files,
+      fileIds: new Set([...this.baseline.fileIds, ...ids]),
+    }
+  }
+
+  isDirty(): boolean {
+    return this.dirty
+  }
+
+  /**
+   * Check a change notification against the reference
+   * Returns whether the scene is dirty; always false before the first reset.
+   */
+  update(elements: readonly ExcalidrawElement[], appState: Partial<AppState>, files: BinaryFiles): boolean {
+    if (this.dirty || !this.baseline) return this.dirty
+    this.dirty = elementsDiffer(this.baseline, elements)
+      || filesDiffer(this.baseline, files)
+      || appStateDiffers(this.baseline, appState)
+    return this.dirty
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Crash-recovery drafts
+ *
+ * While a drawing has unsaved edits, the editor keeps a copy of the live
+ * scene in localStorage, outside the plugin storage the store writes to.
+ * A draft outlives a crashed or reloaded iframe and is offered back when
+ * it is newer than the stored drawing. Saving, or discarding the edits,
+ * removes it.
+ */
+
+import type { BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import type { Drawing, ExcalidrawData } from '../types'
+import { logger } from './logger'
+import { drawingStore } from './store'
+
+const DRAFT_PREFIX = 'excalidraw-draft-'
+
+export interface Draft {
+  drawingId: string
+  savedAt: number
+  data: ExcalidrawData
+}
+
+/** A draft newer than its drawing, with the name to show for it */
+export interface RecoverableDraft extends Draft {
+  name: string
+}
+
+function draftKey(drawingId: string): string {
+  return `${DRAFT_PREFIX}${drawingId}`
+}
+
+/**
+ * Keep only the image files storage doesn't already have
+ * Files with a stored reference are reloaded from the asset store.
+ */
+function unsavedFiles(data: ExcalidrawData): BinaryFiles {
+  const files: BinaryFiles = {}
+  for (const [id, file] of Object.entries(data.files ?? {})) {
+    if (!data.fileRefs?.[id]) files[id] = file
+  }
+  return files
+}
+
+/**
+ * Write the latest scene for a drawing
+ * Falls back to a draft without new images when localStorage is full.
+ */
+export function writeDraft(drawingId: string, data: ExcalidrawData) {
+  const draft: Draft = {
+    drawingId,
+    savedAt: Date.now(),
+    data: { ...data, files: unsavedFiles(data) },
+  }
+  try {
+    localStorage.setItem(draftKey(drawingId), JSON.stringify(draft))
+  } catch (error) {
+    logger.warn('Draft too large, keeping it without new images:', error)
+    try {
+      localStorage.setItem(draftKey(drawingId), JSON.stringify({ ...draft, data: { ...draft.data, files: {} } }))
+    } catch (retryError) {
+      logger.error('Failed to write recovery draft:', retryError)
+    }
+  }
+}
+
+export function readDraft(drawingId: string): Draft | null {
+  try {
+    const raw = localStorage.getItem(draftKey(drawingId))
+    if (!raw) return null
+    const draft = JSON.parse(raw) as Draft
+    return Array.isArray(draft?.data?.elements) && typeof draft.savedAt === 'number' ? draft : null
+  } catch (error) {
+    logger.warn('Unreadable recovery draft for', drawingId, error)
+    return null
+  }
+}
+
+export function clearDraft(drawingId: string) {
+  try {
+    localStorage.removeItem(draftKey(drawingId))
+  } catch (error) {
+    logger.warn('Failed to clear recovery draft:', error)
+  }
+}
+
+/**
+ * Whether a draft holds edits the stored drawing doesn't have
+ */
+export function isDraftNewer(draft: Draft, updatedAt: number): boolean {
+  return draft.savedAt > updatedAt
+}
+
+/**
+ * Drafts newer than their stored drawing, newest first
+ * Stale drafts and drafts of drawings that no longer exist are cleared.
+ */
+export async function findRecoverableDrafts(): Promise<RecoverableDraft[]> {
+  const ids: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.startsWith(DRAFT_PREFIX)) ids.push(key.slice(DRAFT_PREFIX.length))
+  }
+
+  const drafts: RecoverableDraft[] = []
+  for (const id of ids) {
+    const draft = readDraft(id)
+    const meta = draft ? await drawingStore.getMeta(id) : null
+    if (!draft || !meta || !isDraftNewer(draft, meta.updatedAt)) {
+      clearDraft(id)
+      continue
+    }
+    drafts.push({ ...draft, name: meta.name })
+  }
+  return drafts.sort((a, b) => b.savedAt - a.savedAt)
+}
+
+/**
+ * Save a draft over its drawing and remove it
+ * Used where no editor is available to load it into.
+ */
+export async function applyDraft(draft: Draft): Promise<Drawing | null> {
+  const stored = await drawingStore.get(draft.drawingId)
+  if (!stored) return null
+
+  const saved = await drawingStore.save({
+    ...stored,
+    data: {
+      ...draft.data,
+      fileRefs: { ...stored.data.fileRefs, ...draft.data.fileRefs },
+    },
+  })
+  clearDraft(draft.drawingId)
+  return saved
+}
@@ -0,0 +1,93 @@
+/**
+ * Native .excalidraw files
+ *
+ * Goes through Excalidraw's own serializeAsJSON / loadFromBlob so scenes
+ * round-trip with excalidraw.com, Obsidian and VS Code without loss.
+ * Shape libraries use the .excalidrawlib format of libraries.excalidraw.com.
+ */
+
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types'
+import type { AppState, BinaryFiles, LibraryItems } from '@excalidraw/excalidraw/types/types'
+import type { ExcalidrawData } from '../types'
+import { downloadBlob } from './utils'
+
+export const EXCALIDRAW_EXTENSION = '.excalidraw'
+export const EXCALIDRAW_LIBRARY_EXTENSION = '.excalidrawlib'
+
+/**
+ * Whether a dropped or picked file looks like an Excalidraw scene
+ */
+export function isExcalidrawFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(EXCALIDRAW_EXTENSION) || file.type === 'application/vnd.excalidraw+json'
+}
+
+/**
+ * Drawing name for an imported file: its name without the extension
+ */
+export function drawingNameFromFile(file: File): string {
+  return file.name.replace(/\.excalidraw(\.json)?$/i, '').replace(/\.json$/i, '') || 'Imported drawing'
+}
+
+/**
+ * Serialize a scene in the .excalidraw format
+ * Deleted elements kept for merging are left out of the file.
+ */
+export async function serializeScene(
+  elements: readonly ExcalidrawElement[],
+  appState: Partial<AppState>,
+  files: BinaryFiles
+): Promise<string> {
+  const { serializeAsJSON } = await import('@excalidraw/excalidraw')
+  return serializeAsJSON(elements.filter((e) => !e.isDeleted), appState, files, 'local')
+}
+
+export async function downloadExcalidrawFile(
+  name: string,
+  elements: readonly ExcalidrawElement[],
+  appState: Partial<AppState>,
+  files: BinaryFiles
+) {
+  const json = await serializeScene(elements, appState, files)
+  downloadBlob(new Blob([json], { type: 'application/vnd.excalidraw+json' }), `${name}${EXCALIDRAW_EXTENSION}`)
+}
+
+/**
+ * Read a .excalidraw file into drawing data
+ * Throws if the file isn't a valid Excalidraw scene.
+ */
+export async function loadExcalidrawFile(file: File): Promise<ExcalidrawData> {
+  const { loadFromBlob } = await import('@excalidraw/excalidraw')
+  const { elements, appState, files } = await loadFromBlob(file, null, null)
+  return {
+    elements,
+    appState: {
+      viewBackgroundColor: appState.viewBackgroundColor,
+      gridSize: appState.gridSize,
+    },
+    files,
+  }
+}
+
+/**
+ * Whether a dropped or picked file looks like an Excalidraw shape library
+ */
+export function isExcalidrawLibraryFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(EXCALIDRAW_LIBRARY_EXTENSION) || file.type === 'application/vnd.excalidrawlib+json'
+}
+
+/**
+ * Read the items of a .excalidrawlib file
+ * Throws if the file isn't a valid library.
+ */
+export async function loadLibraryFile(file: File): Promise<LibraryItems> {
+  const { loadLibraryFromBlob } = await import('@excalidraw/excalidraw')
+  return loadLibraryFromBlob(file)
+}
+
+export async function downloadLibraryFile(name: string, items: LibraryItems) {
+  const { serializeLibraryAsJSON } = await import('@excalidraw/excalidraw')
+  downloadBlob(
+    new Blob([serializeLibraryAsJSON(items)], { type: 'application/vnd.excalidrawlib+json' }),
+    `${name}${EXCALIDRAW_LIBRARY_EXTENSION}`
+  )
+}
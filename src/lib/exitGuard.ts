@@ -0,0 +1,73 @@
+/**
+ * Save-before-exit pipeline
+ *
+ * The open editor registers a flush handler that saves pending edits.
+ * Every way out of the plugin UI (Escape, back, close, the toolbar button,
+ * opening another view, unload) awaits `flushPendingChanges` first and
+ * stays put when it returns false.
+ */
+
+import { logger } from './logger'
+
+export interface FlushHandler {
+  isDirty: () => boolean
+  /**
+   * Resolves true when it's safe to leave: saved, or discarded by the user
+   * Without `interactive` it must not wait on the user, e.g. during unload.
+   */
+  flush: (interactive: boolean) => Promise<boolean>
+}
+
+let flushHandler: FlushHandler | null = null
+let pendingFlush: Promise<boolean> | null = null
+
+/**
+ * Install the handler for the current editor
+ * Returns a function removing it again.
+ */
+export function registerFlushHandler(handler: FlushHandler): () => void {
+  flushHandler = handler
+  return () => {
+    if (flushHandler === handler) flushHandler = null
+  }
+}
+
+/**
+ * Save pending edits before leaving
+ * Concurrent exits (e.g. Escape pressed twice) share one flush.
+ */
+export function flushPendingChanges(interactive = true): Promise<boolean> {
+  if (!flushHandler) return Promise.resolve(true)
+  if (!pendingFlush) {
+    if (!flushHandler.isDirty()) return Promise.resolve(true)
+    pendingFlush = flushHandler.flush(interactive)
+      .catch((error) => {
+        logger.error('Flush before exit failed:', error)
+        return false
+      })
+      .finally(() => {
+        pendingFlush = null
+      })
+  }
+  return pendingFlush
+}
+
+/**
+ * Whether the open editor has edits that aren't saved yet
+ */
+export function hasUnsavedChanges(): boolean {
+  return flushHandler?.isDirty() ?? false
+}
+
+/**
+ * Run `leave` once pending edits are safe
+ * Returns whether it ran.
+ */
+export async function guardedExit(leave: () => void | Promise<void>): Promise<boolean> {
+  if (!(await flushPendingChanges())) {
+    logger.debug('Exit cancelled: unsaved changes kept')
+    return false
+  }
+  await leave()
+  return true
+}
@@ -0,0 +1,163 @@
+/**
+ * Image export
+ *
+ * Renders the whole scene, the selection or a single frame as PNG or SVG.
+ * With `embedScene` the scene is written into the image (a PNG text chunk
+ * or SVG metadata), so the file can be dropped back into Excalidraw and
+ * edited again.
+ */
+
+import type { ExcalidrawElement, ExcalidrawFrameElement, NonDeleted } from '@excalidraw/excalidraw/types/element/types'
+import type { AppState, BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import { downloadBlob } from './utils'
+
+export type ExportFormat = 'png' | 'svg'
+export type ExportScale = 1 | 2 | 3 | 4
+export type ExportScope = 'scene' | 'selection' | 'frame'
+
+export const EXPORT_SCALES: ExportScale[] = [1, 2, 3, 4]
+
+export interface ImageExportOptions {
+  format: ExportFormat
+  scale: ExportScale
+  background: boolean
+  darkMode: boolean
+  scope: ExportScope
+  frameId?: string      // frame to export when scope is 'frame'
+  embedScene: boolean
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ImageExportOptions = {
+  format: 'png',
+  scale: 2,
+  background: true,
+  darkMode: false,
+  scope: 'scene',
+  embedScene: false,
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+}
+
+export interface ExportFrame {
+  id: string
+  name: string
+}
+
+type Elements = readonly ExcalidrawElement[]
+
+function isFrame(element: ExcalidrawElement): element is ExcalidrawFrameElement {
+  return element.type === 'frame'
+}
+
+/**
+ * Frames in a scene, in drawing order, named like Excalidraw does
+ */
+export function listFrames(elements: Elements): ExportFrame[] {
+  return elements
+    .filter((e): e is ExcalidrawFrameElement => isFrame(e) && !e.isDeleted)
+    .map((frame, i) => ({ id: frame.id, name: frame.name || `Frame ${i + 1}` }))
+}
+
+/**
+ * Whether anything is selected that can be exported on its own
+ */
+export function hasExportableSelection(appState: Pick<AppState, 'selectedElementIds'>): boolean {
+  return Object.values(appState.selectedElementIds).some(Boolean)
+}
+
+/**
+ * Elements to render for an export scope
+ * Text bound to a selected container, and the contents of a selected
+ * frame, come along with it.
+ */
+function elementsInScope(
+  elements: Elements,
+  appState: Partial<AppState>,
+  options: ImageExportOptions
+): { elements: NonDeleted<ExcalidrawElement>[]; frame: ExcalidrawFrameElement | null } {
+  const live = elements.filter((e): e is NonDeleted<ExcalidrawElement> => !e.isDeleted)
+
+  if (options.scope === 'selection') {
+    const selected = appState.selectedElementIds ?? {}
+    return {
+      elements: live.filter((e) => selected[e.id]
+        || (e.frameId && selected[e.frameId])
+        || (e.type === 'text' && e.containerId && selected[e.containerId])),
+      frame: null,
+    }
+  }
+
+  if (options.scope === 'frame') {
+    const frame = live.find((e): e is NonDeleted<ExcalidrawFrameElement> => isFrame(e) && e.id === options.frameId)
+    if (frame) {
+      return { elements: live.filter((e) => e.id === frame.id || e.frameId === frame.id), frame }
+    }
+  }
+
+  return { elements: live, frame: null }
+}
+
+/**
+ * Render an export of the scene
+ * Throws if the chosen scope has nothing in it.
+ */
+export async function renderImage(
+  elements: Elements,
+  appState: Partial<AppState>,
+  files: BinaryFiles,
+  options: ImageExportOptions
+): Promise<Blob> {
+  const scoped = elementsInScope(elements, appState, options)
+  if (scoped.elements.length === 0) throw new Error('Nothing to export')
+
+  const exportAppState = {
+    ...appState,
+    exportBackground: options.background,
+    exportWithDarkMode: options.darkMode,
+    exportEmbedScene: options.embedScene,
+    exportScale: options.scale,
+  }
+
+  const { exportToBlob, exportToSvg } = await import('@excalidraw/excalidraw')
+  if (options.format === 'svg') {
+    const svg = await exportToSvg({
+      elements: scoped.elements,
+      appState: exportAppState,
+      files,
+      exportingFrame: scoped.frame,
+    })
+    return new Blob([svg.outerHTML], { type: MIME_TYPES.svg })
+  }
+
+  return exportToBlob({
+    elements: scoped.elements,
+    appState: exportAppState,
+    files,
+    exportingFrame: scoped.frame,
+    mimeType: MIME_TYPES.png,
+    // exportToBlob ignores exportScale unless it is applied here
+    getDimensions: (width, height) => ({
+      width: width * options.scale,
+      height: height * options.scale,
+      scale: options.scale,
+    }),
+  })
+}
+
+export function downloadImage(blob: Blob, name: string, format: ExportFormat) {
+  downloadBlob(blob, `${name}.${format}`)
+}
+
+/**
+ * Put an export on the clipboard: PNG as an image, SVG as markup
+ */
+export async function copyImage(blob: Blob, format: ExportFormat) {
+  if (format === 'svg') {
+    await navigator.clipboard.writeText(await blob.text())
+  } else {
+    await navigator.clipboard.write([new ClipboardItem({ [MIME_TYPES.png]: blob })])
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * PDF export
+ *
+ * Each frame becomes a page, in the same reading order as a presentation,
+ * or the whole scene becomes a single page when there are no frames. Pages
+ * are drawn from Excalidraw's SVG export, so shapes stay vector, and each
+ * frame's name is added as a bookmark. All of it runs in the browser.
+ *
+ * Text is set in a standard PDF font: the hand-drawn and CJK web fonts
+ * aren't embedded.
+ */
+
+import type { ExcalidrawElement, ExcalidrawFrameElement, NonDeleted } from '@excalidraw/excalidraw/types/element/types'
+import type { AppState, BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import { downloadBlob } from './utils'
+import { orderSlides } from './presentation'
+
+// SVG sizes are CSS pixels, PDF pages are measured in points
+const PX_TO_PT = 72 / 96
+
+interface PdfPage {
+  title: string
+  elements: NonDeleted<ExcalidrawElement>[]
+  frame: ExcalidrawFrameElement | null
+}
+
+function pagesOf(elements: readonly ExcalidrawElement[], name: string): PdfPage[] {
+  const live = elements.filter((e): e is NonDeleted<ExcalidrawElement> => !e.isDeleted)
+  const frames = orderSlides(live)
+  if (frames.length === 0) return [{ title: name, elements: live, frame: null }]
+
+  return frames.map((frame, i) => ({
+    title: frame.name || `Page ${i + 1}`,
+    elements: live.filter((e) => e.id === frame.id || e.frameId === frame.id),
+    frame,
+  }))
+}
+
+/**
+ * Render a scene as a PDF, one page per frame
+ * Throws if the scene is empty.
+ */
+export async function renderPdf(
+  name: string,
+  elements: readonly ExcalidrawElement[],
+  appState: Partial<AppState>,
+  files: BinaryFiles
+): Promise<Blob> {
+  const pages = pagesOf(elements, name)
+  if (pages[0].elements.length === 0) throw new Error('Nothing to export')
+
+  const [{ exportToSvg }, { jsPDF }, { svg2pdf }] = await Promise.all([
+    import('@excalidraw/excalidraw'),
+    import('jspdf'),
+    import('svg2pdf.js'),
+  ])
+
+  let pdf: InstanceType<typeof jsPDF> | null = null
+  for (const [i, page] of pages.entries()) {
+    const svg = await exportToSvg({
+      elements: page.elements,
+      appState: {
+        exportBackground: true,
+        exportWithDarkMode: false,
+        viewBackgroundColor: appState.viewBackgroundColor,
+      },
+      files,
+      exportingFrame: page.frame,
+    })
+
+    const width = parseFloat(svg.getAttribute('width') ?? '0') * PX_TO_PT
+    const height = parseFloat(svg.getAttribute('height') ?? '0') * PX_TO_PT
+    const orientation = width > height ? 'landscape' : 'portrait'
+
+    if (!pdf) {
+      pdf = new jsPDF({ unit: 'pt', format: [width, height], orientation })
+      pdf.setDocumentProperties({ title: name })
+    } else {
+      pdf.addPage([width, height], orientation)
+    }
+
+    await svg2pdf(svg, pdf, { x: 0, y: 0, width, height })
+    pdf.outline.add(null, page.title, { pageNumber: i + 1 })
+  }
+
+  return pdf!.output('blob')
+}
+
+export async function downloadPdf(
+  name: string,
+  elements: readonly ExcalidrawElement[],
+  appState: Partial<AppState>,
+  files: BinaryFiles
+) {
+  downloadBlob(await renderPdf(name, elements, appState, files), `${name}.pdf`)
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { rewriteLegacyReferences } from './legacyImport'
+
+const MACRO = '{{renderer excalidraw, new-id}}'
+
+describe('rewriteLegacyReferences', () => {
+  it.each([
+    '{{renderer excalidraw, plan}}',
+    '{{renderer excalidraw-menu, draws/plan.excalidraw}}',
+    '![Plan](../draws/plan.excalidraw)',
+    '[[draws/plan.excalidraw]]',
+    '[[plan.excalidraw]]',
+  ])('rewrites %s', (content) => {
+    expect(rewriteLegacyReferences(`see ${content} here`, 'plan', MACRO)).toBe(`see ${MACRO} here`)
+  })
+
+  it.each([
+    '{{renderer excalidraw, floorplan}}',
+    '{{renderer excalidraw, myplan-2.excalidraw}}',
+    '[Plan](floorplan.excalidraw)',
+    '[[plan-2.excalidraw]]',
+  ])('leaves %s alone', (content) => {
+    expect(rewriteLegacyReferences(content, 'plan', MACRO)).toBe(content)
+  })
+
+  it('matches names with regex characters literally', () => {
+    expect(rewriteLegacyReferences('[[a+b (1).excalidraw]]', 'a+b (1)', MACRO)).toBe(MACRO)
+    expect(rewriteLegacyReferences('[[aab (1).excalidraw]]', 'a+b (1)', MACRO)).toBe('[[aab (1).excalidraw]]')
+  })
+
+  it('inserts the macro literally', () => {
+    const macro = "{{renderer excalidraw, $& $1 $` $'}}"
+    expect(rewriteLegacyReferences('x [[plan.excalidraw]] y', 'plan', macro)).toBe(`x ${macro} y`)
+  })
+})
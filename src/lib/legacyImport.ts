@@ -0,0 +1,123 @@
+/**
+ * Import from the file-graph Excalidraw plugin
+ *
+ * That plugin kept each drawing as a `.excalidraw` file in the graph's
+ * `draws/` (or assets) folder and referenced it from blocks by path. The
+ * wizard reads the folder the user picks, creates a drawing per file, and
+ * rewrites the old references to this plugin's renderer macro.
+ */
+
+import type { Drawing } from '../types'
+import { logger } from './logger'
+import { drawingNameFromFile, isExcalidrawFile, loadExcalidrawFile } from './excalidrawFile'
+import { findBlocksMentioning, getDrawingRendererMacro } from './plugin'
+import type { BlockMention } from './plugin'
+import { scheduleThumbnail } from './thumbnail'
+import { drawingStore } from './store'
+import { getDefaultTags } from './settings'
+
+export type LegacyReference = BlockMention
+
+export interface LegacyDrawing {
+  path: string  // path inside the picked folder
+  stem: string  // file name without extension, used to find references
+  name: string
+  file: File
+  references: LegacyReference[]
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function fileStem(fileName: string): string {
+  return fileName.replace(/\.excalidraw(\.json)?$/i, '')
+}
+
+/**
+ * Patterns the old plugin and hand-written links used to point at a file:
+ * its renderer macro, Markdown links/embeds and wiki links
+ * The name must be the whole file name, at the start of the path or right
+ * after a separator, so `plan` doesn't match `floorplan` or `plan-2`.
+ */
+function referencePatterns(stem: string): RegExp[] {
+  const name = escapeRegExp(stem)
+  const dir = '(?:[^\\s}\\])|,]*[/\\\\])?'
+  return [
+    new RegExp(`\\{\\{renderer\\s+[\\w-]*excalidraw[\\w-]*\\s*,\\s*${dir}${name}(?:\\.excalidraw(?:\\.json)?)?\\s*(?:,[^}]*)?\\}\\}`, 'g'),
+    new RegExp(`!?\\[[^\\]]*\\]\\(${dir}${name}\\.excalidraw\\)`, 'g'),
+    new RegExp(`\\[\\[${dir}${name}\\.excalidraw\\]\\]`, 'g'),
+  ]
+}
+
+/**
+ * Replace every reference to a legacy file in a block's text
+ * Returns the text unchanged when it holds no recognisable reference.
+ */
+export function rewriteLegacyReferences(content: string, stem: string, macro: string): string {
+  return referencePatterns(stem).reduce((text, pattern) => text.replace(pattern, () => macro), content)
+}
+
+/**
+ * Blocks that reference a legacy file in a form we can rewrite
+ */
+export async function findLegacyReferences(stem: string): Promise<LegacyReference[]> {
+  const blocks = await findBlocksMentioning(stem)
+  return blocks.filter(({ content }) => referencePatterns(stem).some((pattern) => pattern.test(content)))
+}
+
+/**
+ * List the drawings in a picked folder with the blocks referencing each
+ */
+export async function scanLegacyFolder(files: File[]): Promise<LegacyDrawing[]> {
+  const drawings: LegacyDrawing[] = []
+  for (const file of files.filter(isExcalidrawFile)) {
+    const stem = fileStem(file.name)
+    let references: LegacyReference[] = []
+    try {
+      references = await findLegacyReferences(stem)
+    } catch (error) {
+      logger.warn('Failed to look up references for', file.name, error)
+    }
+    drawings.push({
+      path: file.webkitRelativePath || file.name,
+      stem,
+      name: drawingNameFromFile(file),
+      file,
+      references,
+    })
+  }
+  return drawings.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Create a drawing from a legacy file and point its references at it
+ * Returns the drawing and how many blocks were rewritten.
+ */
+export async function importLegacyDrawing(
+  legacy: LegacyDrawing,
+  rewriteReferences: boolean
+): Promise<{ drawing: Drawing; rewritten: number }> {
+  // Parse first so an unreadable file creates nothing
+  const data = await loadExcalidrawFile(legacy.file)
+  const created = await drawingStore.create(legacy.name, getDefaultTags())
+  const drawing = await drawingStore.save({ ...created, data })
+  scheduleThumbnail(drawing)
+
+  let rewritten = 0
+  if (rewriteReferences) {
+    const macro = getDrawingRendererMacro(drawing.id, drawing.name)
+    for (const reference of legacy.references) {
+      const next = rewriteLegacyReferences(reference.content, legacy.stem, macro)
+      if (next === reference.content) continue
+      try {
+        await logseq.Editor.updateBlock(reference.uuid, next)
+        rewritten++
+      } catch (error) {
+        logger.warn('Failed to rewrite reference in block', reference.uuid, error)
+      }
+    }
+  }
+
+  return { drawing, rewritten }
+}
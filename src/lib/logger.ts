@@ -3,7 +3,9 @@
  * Automatically disables debug logs in production
  */
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
 
 class Logger {
     private enabled: Record<LogLevel, boolean>
@@ -21,6 +23,17 @@ class Logger {
         }
     }
 
+    /**
+     * Show messages at `level` and above; debug stays on in development
+     */
+    setLevel(level: LogLevel) {
+        const isDev = import.meta.env.DEV || import.meta.env.MODE === 'development'
+        const min = LEVELS.indexOf(level)
+        LEVELS.forEach((l, i) => {
+            this.enabled[l] = i >= min || (l === 'debug' && isDev)
+        })
+    }
+
     /**
      * Debug level - only shown in development
      * Use for detailed debugging information
@@ -2,13 +2,14 @@
  * Plugin registration for Logseq DB version
  */
 
-import type { Drawing } from '../types'
+import type { DrawingMeta } from '../types'
 import { logger } from './logger'
+import { drawingStore } from './store'
+import { getSettings, RENDERER_SIZES } from './settings'
+import type { RendererSize } from './settings'
 
 // Store callbacks
 let openExcalidrawCallback: ((drawingId?: string) => void) | null = null
-let getDrawingCallback: ((id: string) => Promise<any>) | null = null
-let loadAllDrawingsCallback: (() => Promise<Drawing[]>) | null = null
 
 // Prefix for excalidraw drawing IDs (to identify in search results)
 const EXCALIDRAW_UUID_PREFIX = 'excalidraw-drawing-'
@@ -17,19 +18,11 @@ export function setOpenCallback(callback: (drawingId?: string) => void) {
   openExcalidrawCallback = callback
 }
 
-export function setGetDrawingCallback(callback: (id: string) => Promise<any>) {
-  getDrawingCallback = callback
-}
-
-export function setLoadAllDrawingsCallback(callback: () => Promise<Drawing[]>) {
-  loadAllDrawingsCallback = callback
-}
-
 /**
  * Refresh the search index with latest drawings
  * Note: Search service is disabled, this just logs for debugging
  */
-export function refreshSearchIndex(drawings: Drawing[]) {
+export function refreshSearchIndex(drawings: DrawingMeta[]) {
   logger.debug('Drawings count:', drawings.length)
 }
 
@@ -48,7 +41,11 @@ export function extractDrawingId(uuid: string): string {
 }
 
 // Register main commands
-export function registerCommands(openCallback: (drawingId?: string) => void) {
+export function registerCommands(
+  openCallback: (drawingId?: string) => void,
+  openRepairCallback: () => void,
+  openLegacyImportCallback: () => void
+) {
   openExcalidrawCallback = openCallback
 
   // Command: Open Excalidraw Dashboard
@@ -79,6 +76,30 @@ export function registerCommands(openCallback: (drawingId?: string) => void) {
     }
   )
 
+  // Command: Check library integrity and repair drift
+  logseq.App.registerCommandPalette(
+    {
+      key: 'excalidraw:repair-library',
+      label: 'Excalidraw: Repair Library',
+    },
+    () => {
+      logger.debug('Opening library repair via command palette')
+      openRepairCallback()
+    }
+  )
+
+  // Command: Import drawings from the file-graph Excalidraw plugin
+  logseq.App.registerCommandPalette(
+    {
+      key: 'excalidraw:import-file-graph',
+      label: 'Excalidraw: Import from File Graph',
+    },
+    () => {
+      logger.debug('Opening file-graph import via command palette')
+      openLegacyImportCallback()
+    }
+  )
+
   // Register dynamic commands for each drawing (will be updated when drawings change)
   registerDrawingCommands()
 }
@@ -100,10 +121,8 @@ export async function updateDrawingCommands() {
   // First unregister old commands
   // Note: Logseq doesn't have unregister API, so we just track what we've registered
 
-  if (!loadAllDrawingsCallback) return
-
   try {
-    const drawings = await loadAllDrawingsCallback()
+    const drawings = await drawingStore.listMeta()
 
     // Register a command for each drawing (limit to recent 20)
     const recentDrawings = drawings.slice(0, 20)
@@ -172,21 +191,21 @@ export function registerBlockRenderers() {
     let drawingName = 'Excalidraw Drawing'
     let thumbnail = ''
 
-    if (getDrawingCallback) {
-      try {
-        const drawing = await getDrawingCallback(drawingId)
-        if (drawing) {
-          drawingName = drawing.name || drawingName
-          thumbnail = drawing.thumbnail || ''
-        }
-      } catch (e) {
-        logger.warn('Failed to get drawing info:', e)
+    try {
+      const meta = await drawingStore.getMeta(drawingId)
+      if (meta) {
+        drawingName = meta.name || drawingName
+        if (meta.deletedAt) drawingName += ' (in Trash)'
+        thumbnail = (await drawingStore.getThumbnail(drawingId)) || ''
       }
+    } catch (e) {
+      logger.warn('Failed to get drawing info:', e)
     }
 
     // Render a preview card for the drawing
+    const size = RENDERER_SIZES[getSettings().rendererSize]
     const thumbnailHtml = thumbnail
-      ? `<img src="${thumbnail}" alt="${drawingName}" style="max-width: 100%; max-height: 120px; object-fit: contain;" />`
+      ? `<img src="${thumbnail}" alt="${drawingName}" style="max-width: 100%; max-height: ${size.maxHeight}px; object-fit: contain;" />`
       : `<svg width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5" style="opacity: 0.5;">
           <path d="M12 19l7-7 3 3-7 7-3-3z"></path>
           <path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z"></path>
@@ -208,7 +227,7 @@ export function registerBlockRenderers() {
           cursor: pointer;
           transition: all 0.2s ease;
           min-width: 150px;
-          max-width: 300px;
+          max-width: ${size.maxWidth}px;
         " onmouseover="this.style.boxShadow='0 2px 8px rgba(0,0,0,0.1)'; this.style.borderColor='#a855f7';" 
            onmouseout="this.style.boxShadow='none'; this.style.borderColor='var(--ls-border-color, #e1e4e8)';">
           <div style="display: flex; align-items: center; justify-content: center; min-height: 60px; margin-bottom: 8px;">
@@ -243,6 +262,18 @@ export function registerBlockRenderers() {
   })
 }
 
+/**
+ * Resize block previews already on screen after the size setting changes
+ */
+export function applyRendererSize(rendererSize: RendererSize) {
+  const size = RENDERER_SIZES[rendererSize]
+  parent.document.querySelectorAll<HTMLElement>('.excalidraw-block-renderer').forEach((el) => {
+    el.style.maxWidth = `${size.maxWidth}px`
+    const img = el.querySelector('img')
+    if (img) img.style.maxHeight = `${size.maxHeight}px`
+  })
+}
+
 /**
  * Register search service via Command Palette
  * Note: Logseq's search service API is limited, so we use Command Palette commands
@@ -317,6 +348,36 @@ export function getDrawingRendererMacro(drawingId: string, drawingName?: string)
   return `{{renderer excalidraw, ${drawingId}}}`
 }
 
+export interface BlockMention {
+  uuid: string
+  content: string
+}
+
+// Blocks whose text contains a string; `title` in DB graphs, `content` in file graphs
+const MENTION_QUERY = `
+[:find (pull ?b [:block/uuid :block/title :block/content])
+ :in $ ?needle
+ :where
+ (or [?b :block/title ?text]
+     [?b :block/content ?text])
+ [(clojure.string/includes? ?text ?needle)]]`
+
+/**
+ * Find every block whose text contains `needle`
+ */
+export async function findBlocksMentioning(needle: string): Promise<BlockMention[]> {
+  const rows = await logseq.DB.datascriptQuery<{ uuid: string; title?: string; content?: string }[][]>(
+    MENTION_QUERY,
+    JSON.stringify(needle)
+  )
+  const blocks: BlockMention[] = []
+  for (const [block] of rows ?? []) {
+    const content = block?.title ?? block?.content
+    if (block?.uuid && typeof content === 'string') blocks.push({ uuid: block.uuid, content })
+  }
+  return blocks
+}
+
 /**
  * Copy drawing reference to clipboard (includes name for searchability)
  */
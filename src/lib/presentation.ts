@@ -0,0 +1,71 @@
+/**
+ * Frames as slides
+ *
+ * A presentation walks through the scene's frames in reading order: rows
+ * top to bottom, and left to right within a row. Frames whose vertical
+ * extents overlap count as one row, so slides laid out on a rough grid
+ * don't have to be aligned to the pixel.
+ */
+
+import type { ExcalidrawElement, ExcalidrawFrameElement, NonDeleted } from '@excalidraw/excalidraw/types/element/types'
+import type { AppState, BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import { blobToDataURL } from './utils'
+
+export type Slide = NonDeleted<ExcalidrawFrameElement>
+
+// Longest side of a slide preview in the overview
+const PREVIEW_SIZE = 320
+
+function isSlide(element: ExcalidrawElement): element is Slide {
+  return element.type === 'frame' && !element.isDeleted
+}
+
+/**
+ * The scene's frames in the order they are presented
+ */
+export function orderSlides(elements: readonly ExcalidrawElement[]): Slide[] {
+  const frames = elements.filter(isSlide).sort((a, b) => a.y - b.y)
+  const rows: { bottom: number; frames: Slide[] }[] = []
+
+  for (const frame of frames) {
+    const row = rows[rows.length - 1]
+    // Sorted by top edge, so a frame starting above the row's bottom overlaps it
+    if (row && frame.y < row.bottom) {
+      row.frames.push(frame)
+      row.bottom = Math.max(row.bottom, frame.y + frame.height)
+    } else {
+      rows.push({ bottom: frame.y + frame.height, frames: [frame] })
+    }
+  }
+
+  return rows.flatMap((row) => row.frames.sort((a, b) => a.x - b.x))
+}
+
+export function slideName(slide: Slide, index: number): string {
+  return slide.name || `Slide ${index + 1}`
+}
+
+/**
+ * Render a small preview of one slide, clipped to its frame
+ */
+export async function renderSlidePreview(
+  elements: readonly ExcalidrawElement[],
+  slide: Slide,
+  appState: Partial<AppState>,
+  files: BinaryFiles
+): Promise<string> {
+  const { exportToBlob } = await import('@excalidraw/excalidraw')
+  const blob = await exportToBlob({
+    elements: elements.filter((e) => !e.isDeleted && (e.id === slide.id || e.frameId === slide.id)),
+    appState: {
+      exportBackground: true,
+      exportWithDarkMode: false,
+      viewBackgroundColor: appState.viewBackgroundColor,
+    },
+    files,
+    exportingFrame: slide,
+    maxWidthOrHeight: PREVIEW_SIZE,
+    mimeType: 'image/png',
+  })
+  return blobToDataURL(blob)
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SaveQueue } from './saveQueue'
+import type { SaveStatus } from './saveQueue'
+
+function failTimes(count: number) {
+  let calls = 0
+  return vi.fn(async () => {
+    calls++
+    if (calls <= count) throw new Error(`attempt ${calls} failed`)
+    return true
+  })
+}
+
+describe('SaveQueue', () => {
+  let statuses: SaveStatus['state'][]
+  const onStatus = (status: SaveStatus) => statuses.push(status.state)
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    statuses = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('retries a failing save with exponential backoff', async () => {
+    const task = failTimes(2)
+    const result = new SaveQueue(task, onStatus, { baseDelayMs: 100 }).run()
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(task).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(task).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(199)
+    expect(task).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect(await result).toBe(true)
+    expect(statuses).toEqual(['saving', 'retrying', 'saving', 'retrying', 'saving', 'saved'])
+  })
+
+  it('gives up after the last retry', async () => {
+    const task = failTimes(Infinity)
+    const result = new SaveQueue(task, onStatus, { maxRetries: 2, baseDelayMs: 10 }).run()
+    await vi.runAllTimersAsync()
+
+    expect(await result).toBe(false)
+    expect(task).toHaveBeenCalledTimes(3)
+    expect(statuses.at(-1)).toBe('failed')
+  })
+
+  it('doesn\'t retry a rejected save', async () => {
+    const task = vi.fn(async () => false)
+    expect(await new SaveQueue(task, onStatus).run()).toBe(false)
+
+    expect(task).toHaveBeenCalledTimes(1)
+    expect(statuses).toEqual(['saving', 'failed'])
+  })
+
+  it('skips the backoff on retryNow', async () => {
+    const task = failTimes(1)
+    const queue = new SaveQueue(task, onStatus, { baseDelayMs: 60_000 })
+    const result = queue.run()
+    await vi.advanceTimersByTimeAsync(0)
+    queue.retryNow()
+
+    expect(await result).toBe(true)
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('runs saves one at a time and folds waiting requests into one', async () => {
+    let running = 0
+    let overlapped = false
+    const task = vi.fn(async () => {
+      running++
+      overlapped ||= running > 1
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      running--
+      return true
+    })
+    const queue = new SaveQueue(task, onStatus)
+
+    const first = queue.run()
+    // Requests made while the first save runs share one follow-up
+    await vi.advanceTimersByTimeAsync(0)
+    const second = queue.run()
+    const third = queue.run()
+    await vi.runAllTimersAsync()
+
+    expect(await Promise.all([first, second, third])).toEqual([true, true, true])
+    expect(task).toHaveBeenCalledTimes(2)
+    expect(overlapped).toBe(false)
+  })
+
+  it('stops retrying once disposed', async () => {
+    const task = failTimes(Infinity)
+    const queue = new SaveQueue(task, onStatus, { baseDelayMs: 60_000 })
+    const result = queue.run()
+    await vi.advanceTimersByTimeAsync(0)
+    queue.dispose()
+
+    expect(await result).toBe(false)
+    expect(task).toHaveBeenCalledTimes(1)
+  })
+})
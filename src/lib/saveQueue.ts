@@ -0,0 +1,123 @@
+/**
+ * Serialized editor saves
+ *
+ * Autosave, the Save button and exit flushes all go through one queue, so
+ * two saves of the same drawing never overlap. Requests made while a save
+ * runs share a single follow-up save, which reads the scene when it
+ * starts and so covers all of them. A save that throws is retried with
+ * exponential backoff; one that is rejected (e.g. a conflict, which needs
+ * the user) is not.
+ */
+
+import { logger } from './logger'
+
+export type SaveStatus =
+  | { state: 'idle' }
+  | { state: 'saving' }
+  | { state: 'saved'; at: number }
+  | { state: 'retrying'; attempt: number; retryAt: number; error: string }
+  | { state: 'failed'; error: string }
+
+export interface SaveQueueOptions {
+  maxRetries: number
+  baseDelayMs: number
+}
+
+const DEFAULT_OPTIONS: SaveQueueOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+}
+
+/** Resolves true once saved, false when rejected; throws to be retried */
+export type SaveTask = () => Promise<boolean>
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+export class SaveQueue {
+  private tail: Promise<unknown> = Promise.resolve()
+  private queued: Promise<boolean> | null = null
+  private wakeRetry: (() => void) | null = null
+  private disposed = false
+  private options: SaveQueueOptions
+
+  constructor(
+    private task: SaveTask,
+    private onStatus: (status: SaveStatus) => void,
+    options: Partial<SaveQueueOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Save after whatever is in flight
+   * Resolves with whether the save it joined succeeded.
+   */
+  run(): Promise<boolean> {
+    // A run that hasn't started yet will read the latest scene anyway
+    if (this.queued) return this.queued
+
+    const job = this.tail.then(() => {
+      if (this.queued === job) this.queued = null
+      return this.attempt()
+    })
+    this.queued = job
+    this.tail = job.catch(() => undefined)
+    return job
+  }
+
+  /**
+   * Skip the remaining backoff of a save waiting to retry
+   */
+  retryNow() {
+    this.wakeRetry?.()
+  }
+
+  /**
+   * Stop retrying, e.g. when the editor unmounts
+   */
+  dispose() {
+    this.disposed = true
+    this.wakeRetry?.()
+  }
+
+  private async attempt(): Promise<boolean> {
+    for (let attempt = 1; !this.disposed; attempt++) {
+      this.onStatus({ state: 'saving' })
+      try {
+        if (await this.task()) {
+          this.onStatus({ state: 'saved', at: Date.now() })
+          return true
+        }
+        this.onStatus({ state: 'failed', error: 'Save was not accepted' })
+        return false
+      } catch (error) {
+        const message = describeError(error)
+        if (attempt > this.options.maxRetries) {
+          logger.error(`Save failed after ${attempt} attempts:`, error)
+          this.onStatus({ state: 'failed', error: message })
+          return false
+        }
+
+        const delay = this.options.baseDelayMs * 2 ** (attempt - 1)
+        logger.warn(`Save failed, retrying in ${delay}ms:`, error)
+        this.onStatus({ state: 'retrying', attempt, retryAt: Date.now() + delay, error: message })
+        await this.sleep(delay)
+      }
+    }
+    return false
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        this.wakeRetry = null
+        resolve()
+      }
+      const timer = setTimeout(done, ms)
+      this.wakeRetry = done
+    })
+  }
+}
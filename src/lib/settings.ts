@@ -0,0 +1,231 @@
+import type { SettingSchemaDesc } from '@logseq/libs/dist/LSPlugin'
+import type { LogLevel } from './logger'
+
+export type ThumbnailQuality = 'low' | 'medium' | 'high'
+export type RendererSize = 'small' | 'medium' | 'large'
+export type FontChoice = 'hand-drawn' | 'normal' | 'code'
+
+/**
+ * Plugin settings, edited from Logseq's plugin settings page
+ */
+export interface PluginSettings {
+  autoSaveSeconds: number  // 0 disables auto-save
+  defaultTag: string
+  defaultGridMode: boolean
+  defaultZenMode: boolean
+  defaultFont: FontChoice
+  language: string
+  thumbnailQuality: ThumbnailQuality
+  rendererSize: RendererSize
+  trashRetentionDays: number
+  shapeLibraryPerTag: boolean
+  logLevel: LogLevel
+}
+
+export const DEFAULT_SETTINGS: PluginSettings = {
+  autoSaveSeconds: 5,
+  defaultTag: '',
+  defaultGridMode: false,
+  defaultZenMode: false,
+  defaultFont: 'hand-drawn',
+  language: 'en',
+  thumbnailQuality: 'medium',
+  rendererSize: 'medium',
+  trashRetentionDays: 30,
+  shapeLibraryPerTag: false,
+  logLevel: 'info',
+}
+
+/** Longest side, in pixels, of stored preview images */
+export const THUMBNAIL_SIZES: Record<ThumbnailQuality, number> = {
+  low: 240,
+  medium: 480,
+  high: 960,
+}
+
+/** Bounds of the preview card drawn by the block renderer */
+export const RENDERER_SIZES: Record<RendererSize, { maxWidth: number; maxHeight: number }> = {
+  small: { maxWidth: 200, maxHeight: 80 },
+  medium: { maxWidth: 300, maxHeight: 120 },
+  large: { maxWidth: 480, maxHeight: 240 },
+}
+
+const THUMBNAIL_QUALITIES = Object.keys(THUMBNAIL_SIZES) as ThumbnailQuality[]
+const RENDERER_SIZE_NAMES = Object.keys(RENDERER_SIZES) as RendererSize[]
+const FONT_CHOICES: FontChoice[] = ['hand-drawn', 'normal', 'code']
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+// Locales Excalidraw ships translations for
+const LANGUAGES = ['en', 'de-DE', 'es-ES', 'fr-FR', 'it-IT', 'ja-JP', 'ko-KR', 'nl-NL', 'pl-PL', 'pt-BR', 'ru-RU', 'uk-UA', 'zh-CN', 'zh-TW']
+
+export const settingsSchema: SettingSchemaDesc[] = [
+  {
+    key: 'editorHeading',
+    type: 'heading',
+    default: null,
+    title: 'Editor',
+    description: '',
+  },
+  {
+    key: 'autoSaveSeconds',
+    type: 'number',
+    default: DEFAULT_SETTINGS.autoSaveSeconds,
+    title: 'Auto-save delay (seconds)',
+    description: 'Save this long after the last change. Use 0 to save only with the Save button.',
+  },
+  {
+    key: 'defaultGridMode',
+    type: 'boolean',
+    default: DEFAULT_SETTINGS.defaultGridMode,
+    title: 'Show grid by default',
+    description: 'Open drawings with the grid turned on.',
+  },
+  {
+    key: 'defaultZenMode',
+    type: 'boolean',
+    default: DEFAULT_SETTINGS.defaultZenMode,
+    title: 'Zen mode by default',
+    description: 'Open drawings with the toolbars hidden.',
+  },
+  {
+    key: 'defaultFont',
+    type: 'enum',
+    enumPicker: 'select',
+    enumChoices: FONT_CHOICES,
+    default: DEFAULT_SETTINGS.defaultFont,
+    title: 'Default font',
+    description: 'Font for new text: hand-drawn (Virgil), normal (Helvetica) or code (Cascadia).',
+  },
+  {
+    key: 'language',
+    type: 'enum',
+    enumPicker: 'select',
+    enumChoices: LANGUAGES,
+    default: DEFAULT_SETTINGS.language,
+    title: 'Editor language',
+    description: 'Language of the Excalidraw toolbar and menus.',
+  },
+  {
+    key: 'libraryHeading',
+    type: 'heading',
+    default: null,
+    title: 'Library',
+    description: '',
+  },
+  {
+    key: 'defaultTag',
+    type: 'string',
+    default: DEFAULT_SETTINGS.defaultTag,
+    title: 'Default drawing tag',
+    description: 'Tag given to new and imported drawings. Leave empty for none.',
+  },
+  {
+    key: 'thumbnailQuality',
+    type: 'enum',
+    enumPicker: 'select',
+    enumChoices: THUMBNAIL_QUALITIES,
+    default: DEFAULT_SETTINGS.thumbnailQuality,
+    title: 'Thumbnail quality',
+    description: 'Resolution of dashboard and block previews. Higher quality uses more storage; existing thumbnails update on their next save.',
+  },
+  {
+    key: 'rendererSize',
+    type: 'enum',
+    enumPicker: 'select',
+    enumChoices: RENDERER_SIZE_NAMES,
+    default: DEFAULT_SETTINGS.rendererSize,
+    title: 'Block preview size',
+    description: 'Size of drawings embedded in pages with {{renderer excalidraw, id}}.',
+  },
+  {
+    key: 'trashRetentionDays',
+    type: 'number',
+    default: DEFAULT_SETTINGS.trashRetentionDays,
+    title: 'Trash retention (days)',
+    description: 'Deleted drawings stay in the Trash this many days before they are removed for good. Use 0 to keep them until the Trash is emptied by hand.',
+  },
+  {
+    key: 'shapeLibraryPerTag',
+    type: 'boolean',
+    default: DEFAULT_SETTINGS.shapeLibraryPerTag,
+    title: 'Shape library per tag',
+    description: 'Give each tag its own Excalidraw shape library. A drawing uses the library of its first tag; drawings without tags use the shared one.',
+  },
+  {
+    key: 'advancedHeading',
+    type: 'heading',
+    default: null,
+    title: 'Advanced',
+    description: '',
+  },
+  {
+    key: 'logLevel',
+    type: 'enum',
+    enumPicker: 'select',
+    enumChoices: LOG_LEVELS,
+    default: DEFAULT_SETTINGS.logLevel,
+    title: 'Log level',
+    description: 'Least severe messages written to the developer console.',
+  },
+]
+
+function readNumber(value: unknown, fallback: number): number {
+  const n = Number(value)
+  return value !== '' && value !== null && Number.isFinite(n) && n >= 0 ? n : fallback
+}
+
+function readBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback
+}
+
+function readChoice<T extends string>(value: unknown, choices: readonly T[], fallback: T): T {
+  return choices.includes(value as T) ? (value as T) : fallback
+}
+
+/**
+ * Current settings with defaults filled in for missing or invalid values
+ */
+export function getSettings(): PluginSettings {
+  const raw: Record<string, unknown> = (typeof logseq !== 'undefined' ? logseq.settings : undefined) ?? {}
+  const d = DEFAULT_SETTINGS
+
+  return {
+    autoSaveSeconds: readNumber(raw.autoSaveSeconds, d.autoSaveSeconds),
+    defaultTag: typeof raw.defaultTag === 'string' ? raw.defaultTag.trim().replace(/^#/, '') : d.defaultTag,
+    defaultGridMode: readBoolean(raw.defaultGridMode, d.defaultGridMode),
+    defaultZenMode: readBoolean(raw.defaultZenMode, d.defaultZenMode),
+    defaultFont: readChoice(raw.defaultFont, FONT_CHOICES, d.defaultFont),
+    language: readChoice(raw.language, LANGUAGES, d.language),
+    thumbnailQuality: readChoice(raw.thumbnailQuality, THUMBNAIL_QUALITIES, d.thumbnailQuality),
+    rendererSize: readChoice(raw.rendererSize, RENDERER_SIZE_NAMES, d.rendererSize),
+    trashRetentionDays: readNumber(raw.trashRetentionDays, d.trashRetentionDays),
+    shapeLibraryPerTag: readBoolean(raw.shapeLibraryPerTag, d.shapeLibraryPerTag),
+    logLevel: readChoice(raw.logLevel, LOG_LEVELS, d.logLevel),
+  }
+}
+
+/**
+ * Tags for a drawing created without any: the default tag, if set
+ */
+export function getDefaultTags(): string[] {
+  const { defaultTag } = getSettings()
+  return defaultTag ? [defaultTag] : []
+}
+
+/**
+ * Tag whose shape library a drawing with `tags` uses; null for the shared one
+ */
+export function getShapeLibraryTag(settings: PluginSettings, tags: string[]): string | null {
+  return settings.shapeLibraryPerTag ? tags[0] ?? null : null
+}
+
+export function registerSettings() {
+  logseq.useSettingsSchema(settingsSchema)
+}
+
+/**
+ * Call `listener` with the validated settings whenever the user edits them
+ * Returns an unsubscribe function.
+ */
+export function onSettingsChange(listener: (settings: PluginSettings) => void): () => void {
+  return logseq.onSettingsChanged(() => listener(getSettings()))
+}
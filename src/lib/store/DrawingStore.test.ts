@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest'
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types'
+import type { BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import { MemoryStorageBackend } from './backends'
+import { CHUNK_KEY_PREFIX } from './codec'
+import { ConflictError } from './conflicts'
+import { DrawingStore, drawingKey, thumbnailKey, toMeta } from './DrawingStore'
+import { historyKey } from './history'
+import { quarantineKey } from './integrity'
+import { fileKey, isFileKey } from './assets'
+import { WAL_KEY_PREFIX, WriteAheadLog } from './wal'
+
+function element(props: Record<string, unknown> = {}): ExcalidrawElement {
+  return {
+    id: crypto.randomUUID(),
+    type: 'rectangle',
+    version: 1,
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+    ...props,
+  } as unknown as ExcalidrawElement
+}
+
+// Small items, so any real scene is chunked
+function setup() {
+  const backend = new MemoryStorageBackend(undefined, 512)
+  return { backend, store: new DrawingStore(backend) }
+}
+
+async function saveScene(store: DrawingStore, elements: ExcalidrawElement[], files?: BinaryFiles) {
+  const drawing = await store.create('Plan')
+  return store.save({ ...drawing, data: { elements, files } })
+}
+
+async function chunksOf(backend: MemoryStorageBackend, key: string): Promise<string[]> {
+  return (await backend.allKeys()).filter((k) => k.startsWith(`${CHUNK_KEY_PREFIX}${key}@`))
+}
+
+// Random bytes don't compress, so this stays larger than one item
+function largeImage(id: string): BinaryFiles {
+  const bytes = crypto.getRandomValues(new Uint8Array(2048))
+  const dataURL = `data:image/png;base64,${btoa(String.fromCharCode(...bytes))}`
+  return { [id]: { id, mimeType: 'image/png', dataURL, created: 1 } } as unknown as BinaryFiles
+}
+
+describe('DrawingStore files', () => {
+  it('chunks image files larger than one item', async () => {
+    const { backend, store } = setup()
+    const files = largeImage('img')
+    const drawing = await saveScene(store, [element({ type: 'image', fileId: 'img' })], files)
+    const hash = drawing.data.fileRefs!.img
+
+    expect(await backend.getItem(fileKey(hash))).toMatch(/^chunked:/)
+    expect((await chunksOf(backend, fileKey(hash))).length).toBeGreaterThan(1)
+    const [loaded] = await store.loadFiles({ img: hash })
+    expect(loaded.dataURL).toBe(files.img.dataURL)
+  })
+
+  it('removes the chunks of unreferenced files', async () => {
+    const { backend, store } = setup()
+    const drawing = await saveScene(store, [element({ type: 'image', fileId: 'img' })], largeImage('img'))
+    await store.delete(drawing.id)
+
+    expect(await store.collectGarbage()).toBe(1)
+    expect(await backend.allKeys()).not.toContainEqual(expect.stringContaining('file-'))
+  })
+})
+
+describe('DrawingStore.quarantine', () => {
+  it('moves a chunked scene aside with the chunks that survive', async () => {
+    const { backend, store } = setup()
+    const drawing = await saveScene(store, Array.from({ length: 30 }, () => element()))
+    const chunks = await chunksOf(backend, drawingKey(drawing.id))
+    expect(chunks.length).toBeGreaterThan(1)
+    await backend.removeItem(chunks[0])
+
+    const report = await store.checkIntegrity()
+    expect(report.issues).toEqual([expect.objectContaining({ kind: 'corrupt', id: drawing.id })])
+    await store.quarantine([drawing.id])
+
+    expect(await backend.getItem(drawingKey(drawing.id))).toBeNull()
+    expect(await chunksOf(backend, drawingKey(drawing.id))).toEqual([])
+    expect(await backend.getItem(quarantineKey(drawing.id))).toMatch(/^chunked:/)
+    expect(await chunksOf(backend, quarantineKey(drawing.id))).toHaveLength(chunks.length - 1)
+    expect(await store.listMeta()).toEqual([])
+  })
+
+  it('keeps the version history and thumbnail', async () => {
+    const { backend, store } = setup()
+    const drawing = await saveScene(store, [element()])
+    await backend.setItem(thumbnailKey(drawing.id), 'data:image/webp;base64,')
+    await store.quarantine([drawing.id])
+
+    expect(await store.listSnapshots(drawing.id)).not.toHaveLength(0)
+    expect(await backend.getItem(thumbnailKey(drawing.id))).not.toBeNull()
+  })
+
+  it('keeps the images of quarantined scenes when collecting garbage', async () => {
+    const { backend, store } = setup()
+    const files = {
+      img: { id: 'img', mimeType: 'image/png', dataURL: 'data:image/png;base64,AAAA', created: 1 },
+    } as unknown as BinaryFiles
+    const drawing = await saveScene(store, [element({ type: 'image', fileId: 'img' })], files)
+    await store.quarantine([drawing.id])
+    // Only the quarantined scene refers to the file now
+    await backend.removeItem(historyKey(drawing.id))
+
+    expect(await store.collectGarbage()).toBe(0)
+    expect((await backend.allKeys()).filter(isFileKey)).toHaveLength(1)
+  })
+})
+
+describe('DrawingStore.dropInvalidElements', () => {
+  it('removes only the invalid elements and bumps the revision', async () => {
+    const { store } = setup()
+    const valid = element()
+    const drawing = await saveScene(store, [valid, element({ x: Number.NaN })])
+
+    expect(await store.dropInvalidElements([drawing.id])).toBe(1)
+    store.invalidate()
+    const repaired = await store.get(drawing.id)
+    expect(repaired?.data.elements.map((e) => e.id)).toEqual([valid.id])
+    expect(repaired?.revision).toBe(drawing.revision! + 1)
+  })
+})
+
+describe('DrawingStore.saveViewState', () => {
+  it('stores the viewport without bumping the revision', async () => {
+    const { store } = setup()
+    const drawing = await saveScene(store, [element()])
+    const before = await store.getMeta(drawing.id)
+
+    expect(await store.saveViewState(drawing.id, { scrollX: 120, scrollY: -40 })).toBe(true)
+    store.invalidate()
+    const after = await store.get(drawing.id)
+    expect(after?.data.appState).toEqual({ scrollX: 120, scrollY: -40 })
+    expect(after?.revision).toBe(before?.revision)
+    expect(after?.updatedAt).toBe(before?.updatedAt)
+  })
+})
+
+describe('DrawingStore.recover', () => {
+  async function walKeys(backend: MemoryStorageBackend) {
+    return (await backend.allKeys()).filter((k) => k.startsWith(WAL_KEY_PREFIX))
+  }
+
+  it('rolls forward a create whose scene was written', async () => {
+    const { backend, store } = setup()
+    const drawing = await saveScene(store, [element()])
+    // The index update never landed
+    await store.removeIndexEntries([drawing.id])
+    await new WriteAheadLog(backend).begin({ op: 'create', id: drawing.id, entry: toMeta(drawing, 0) })
+
+    expect(await store.recover()).toBe(1)
+    expect((await store.listMeta()).map((m) => m.id)).toEqual([drawing.id])
+    expect(await walKeys(backend)).toEqual([])
+  })
+
+  it('rolls back a create whose scene was never written', async () => {
+    const { backend, store } = setup()
+    const drawing = await store.create('Plan')
+    await backend.removeItem(drawingKey(drawing.id))
+    await new WriteAheadLog(backend).begin({ op: 'create', id: drawing.id, entry: toMeta(drawing, 0) })
+
+    expect(await store.recover()).toBe(1)
+    expect(await store.listMeta()).toEqual([])
+    expect(await walKeys(backend)).toEqual([])
+  })
+
+  it('rolls forward an interrupted delete and reports it', async () => {
+    const { backend, store } = setup()
+    const drawing = await saveScene(store, [element()])
+    await new WriteAheadLog(backend).begin({ op: 'delete', id: drawing.id })
+    const deleted: string[] = []
+    store.onDelete((id) => deleted.push(id))
+
+    expect(await store.recover()).toBe(1)
+    expect(await store.listMeta()).toEqual([])
+    expect(await backend.getItem(drawingKey(drawing.id))).toBeNull()
+    expect(await store.listSnapshots(drawing.id)).toEqual([])
+    expect(deleted).toEqual([drawing.id])
+  })
+
+  it('drops unreadable records', async () => {
+    const { backend, store } = setup()
+    await backend.setItem(`${WAL_KEY_PREFIX}broken`, '{')
+
+    expect(await store.recover()).toBe(1)
+    expect(await walKeys(backend)).toEqual([])
+  })
+})
+
+describe('DrawingStore.save', () => {
+  it('refuses a save based on a revision another window replaced', async () => {
+    const backend = new MemoryStorageBackend()
+    const mine = new DrawingStore(backend)
+    const theirs = new DrawingStore(backend)
+    const drawing = await saveScene(mine, [element()])
+
+    const opened = (await theirs.get(drawing.id))!
+    await theirs.save({ ...opened, data: { elements: [element()] } })
+
+    await expect(mine.save({ ...drawing, data: { elements: [] } })).rejects.toBeInstanceOf(ConflictError)
+    expect((await mine.save({ ...drawing, data: { elements: [] } }, { force: true })).revision).toBe(4)
+  })
+
+  it('lets overlapping saves from the same window through', async () => {
+    const { store } = setup()
+    const drawing = await saveScene(store, [element()])
+
+    await store.save({ ...drawing, data: { elements: [element()] } })
+    // Still based on the first revision, like an editor whose save overlapped
+    expect((await store.save({ ...drawing, data: { elements: [] } })).revision).toBe(drawing.revision! + 2)
+  })
+})
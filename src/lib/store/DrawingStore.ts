@@ -0,0 +1,1145 @@
+/**
+ * DrawingStore - the single owner of every drawing read and write
+ *
+ * Storage layout:
+ *   drawings-meta    JSON array of DrawingMeta, newest first; trashed
+ *                    drawings stay listed with `deletedAt` set
+ *   drawing-<id>     Drawing (scene data, no thumbnail)
+ *   thumbnail-<id>   Thumbnail data URL
+ *   file-<sha256>    Image file shared by every drawing that embeds it
+ *   wal-<txId>       Pending multi-key operation (see wal.ts)
+ *   quarantine-<id>  Unreadable scene set aside by the repair tool
+ *   history-<id>     Version history snapshots (see history.ts)
+ *
+ * Every value but the small WAL records is encoded by codec.ts, so none
+ * outgrows the backend's per-item limit.
+ *
+ * Listing drawings only reads the metadata index; full scenes are parsed
+ * when a drawing is opened and image files are loaded separately by the
+ * editor via `loadFiles`. The block renderer, command palette and React
+ * UI all go through the shared `drawingStore` instance so they see the
+ * same cached data.
+ */
+
+import type { BinaryFileData, BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import type { Drawing, DrawingMeta, ExcalidrawData } from '../../types'
+import { logger } from '../logger'
+import { generateId, getCurrentTimestamp } from '../utils'
+import type { StorageBackend } from './backends'
+import { BACKUP_FORMAT, BACKUP_VERSION } from './backup'
+import type { BackupDrawing, BackupFile, CollisionMode, ImportResult, LibraryBackup } from './backup'
+import { BlobCodec } from './codec'
+import { ConflictError } from './conflicts'
+import { SnapshotHistory, getSceneVersion } from './history'
+import type { SnapshotMeta } from './history'
+import { QUARANTINE_KEY_PREFIX, isValidElement, parseScene, quarantineKey } from './integrity'
+import type { IntegrityIssue, IntegrityReport } from './integrity'
+import { WriteLock } from './lock'
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateDrawing } from './migrations'
+import { WriteAheadLog } from './wal'
+import { fileKey, getReferencedFileIds, hashFile, hashFromFileKey, isFileKey } from './assets'
+
+export const META_INDEX_KEY = 'drawings-meta'
+
+/** Pre-metadata index: a plain array of ids */
+export const LEGACY_INDEX_KEY = 'drawings-index'
+
+const DRAWING_KEY_PREFIX = 'drawing-'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function drawingKey(id: string): string {
+  return `${DRAWING_KEY_PREFIX}${id}`
+}
+
+export function thumbnailKey(id: string): string {
+  return `thumbnail-${id}`
+}
+
+export type DrawingMetaUpdates = {
+  name?: string
+  tags?: string[]
+}
+
+export interface SaveOptions {
+  /** Write even if the drawing changed since `drawing.revision` */
+  force?: boolean
+}
+
+type Listener = () => void
+type DeleteListener = (id: string) => void
+
+export class DrawingStore {
+  private cache = new Map<string, Drawing>()
+  private thumbnails = new Map<string, string>()
+  private meta: DrawingMeta[] | null = null
+  private fileHashes: Set<string> | null = null
+  private listeners = new Set<Listener>()
+  private deleteListeners = new Set<DeleteListener>()
+  private lock = new WriteLock('logseq-excalidraw-db:store')
+  private wal: WriteAheadLog
+  private blobs: BlobCodec
+  private history: SnapshotHistory
+  // Latest revision this window wrote per drawing; survives invalidate()
+  // so overlapping saves from one editor don't conflict with each other
+  private ownRevisions = new Map<string, number>()
+
+  constructor(private backend: StorageBackend) {
+    this.wal = new WriteAheadLog(backend)
+    this.blobs = new BlobCodec(backend)
+    this.history = new SnapshotHistory(this.blobs)
+  }
+
+  /**
+   * Subscribe to changes made through this store
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Be told when a drawing is permanently deleted, to clean up what
+   * lives outside the store. Returns an unsubscribe function.
+   */
+  onDelete(listener: DeleteListener): () => void {
+    this.deleteListeners.add(listener)
+    return () => {
+      this.deleteListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Drop cached data so the next read goes to the backend
+   */
+  invalidate() {
+    this.cache.clear()
+    this.thumbnails.clear()
+    this.meta = null
+    this.fileHashes = null
+  }
+
+  /**
+   * List drawing metadata, most recently updated first
+   * Only the metadata index is read; no scene is parsed. Trashed
+   * drawings are left out.
+   */
+  async listMeta(): Promise<DrawingMeta[]> {
+    const meta = await this.loadMeta()
+    return meta.filter((m) => !m.deletedAt).sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  /**
+   * List trashed drawings, most recently deleted first
+   */
+  async listTrash(): Promise<DrawingMeta[]> {
+    const meta = await this.loadMeta()
+    return meta.filter((m) => m.deletedAt).sort((a, b) => b.deletedAt! - a.deletedAt!)
+  }
+
+  /**
+   * Get metadata for a single drawing, trashed or not
+   */
+  async getMeta(id: string): Promise<DrawingMeta | null> {
+    const meta = await this.loadMeta()
+    return meta.find((m) => m.id === id) ?? null
+  }
+
+  /**
+   * Load a drawing's thumbnail, if it has one
+   */
+  async getThumbnail(id: string): Promise<string | null> {
+    const meta = await this.getMeta(id)
+    if (!meta?.thumbnailKey) return null
+
+    const cached = this.thumbnails.get(meta.thumbnailKey)
+    if (cached) return cached
+
+    const thumbnail = await this.blobs.read(meta.thumbnailKey)
+    if (!thumbnail) return null
+
+    this.thumbnails.set(meta.thumbnailKey, thumbnail)
+    return thumbnail
+  }
+
+  /**
+   * Store a thumbnail rendered after the drawing was saved
+   * Dropped if the scene changed since `sceneVersion`; that save renders
+   * its own. Doesn't bump the revision, so open editors don't conflict.
+   */
+  async setThumbnail(id: string, thumbnail: string, sceneVersion: number, contentHash: string): Promise<boolean> {
+    const stored = await this.lock.run(async () => {
+      this.meta = null
+      const meta = await this.getMeta(id)
+      const drawing = meta && !meta.deletedAt ? await this.get(id) : null
+      if (!meta || !drawing || getSceneVersion(drawing) !== sceneVersion) return false
+
+      const key = thumbnailKey(id)
+      await this.blobs.write(key, thumbnail)
+      this.thumbnails.set(key, thumbnail)
+      await this.mutateMeta((current) => upsert(current, { ...meta, thumbnailKey: key, thumbnailHash: contentHash }))
+
+      try {
+        await this.history.attachThumbnail(id, sceneVersion, thumbnail)
+      } catch (e) {
+        logger.warn('Failed to attach snapshot thumbnail:', id, e)
+      }
+      return true
+    })
+
+    if (stored) this.emit()
+    return stored
+  }
+
+  /**
+   * Load a full drawing (scene included) by id
+   * Name, tags and timestamps come from the metadata index.
+   */
+  async get(id: string): Promise<Drawing | null> {
+    const cached = this.cache.get(id)
+    if (cached) return cached
+
+    const drawingStr = await this.blobs.read(drawingKey(id))
+    if (!drawingStr) return null
+
+    const { drawing: stored, migrated } = migrateDrawing(JSON.parse(drawingStr))
+    const meta = await this.getMeta(id)
+    const drawing: Drawing = meta
+      ? { ...stored, name: meta.name, tags: meta.tags, createdAt: meta.createdAt, updatedAt: meta.updatedAt, revision: meta.revision }
+      : stored
+
+    this.cache.set(id, drawing)
+
+    if (migrated && meta) {
+      // Write the upgraded form back without holding up the caller
+      this.lock.run(async () => {
+        const entry = await this.write(drawing, meta)
+        await this.mutateMeta((current) => upsert(current, entry))
+        logger.debug('Migrated drawing to schema', CURRENT_SCHEMA_VERSION, id)
+      }).catch((e) => logger.warn('Failed to write back migrated drawing:', id, e))
+    }
+
+    return drawing
+  }
+
+  /**
+   * Number of drawings stored in an older schema
+   * Based on the metadata index, so no scene is parsed.
+   */
+  async countOutdated(): Promise<number> {
+    const meta = await this.loadMeta()
+    return meta.filter((m) => isOutdated(m)).length
+  }
+
+  /**
+   * Upgrade every drawing stored in an older schema
+   * Returns the number of drawings migrated.
+   */
+  async migrateAll(onProgress?: (done: number, total: number) => void): Promise<number> {
+    const outdated = (await this.loadMeta()).filter((m) => isOutdated(m))
+    let migrated = 0
+
+    for (const [i, { id }] of outdated.entries()) {
+      try {
+        await this.lock.run(async () => {
+          const drawingStr = await this.blobs.read(drawingKey(id))
+          const meta = await this.getMeta(id)
+          if (!drawingStr || !meta) return
+
+          const { drawing } = migrateDrawing(JSON.parse(drawingStr))
+          const entry = await this.write(
+            { ...drawing, name: meta.name, tags: meta.tags, createdAt: meta.createdAt, updatedAt: meta.updatedAt, revision: meta.revision },
+            meta
+          )
+          await this.mutateMeta((current) => upsert(current, entry))
+          this.cache.delete(id)
+          migrated++
+        })
+      } catch (e) {
+        logger.warn('Failed to migrate drawing:', id, e)
+      }
+      onProgress?.(i + 1, outdated.length)
+    }
+
+    logger.info('Migrated drawings:', migrated, 'of', outdated.length)
+    this.emit()
+    return migrated
+  }
+
+  /**
+   * Load the image files referenced by a drawing
+   * Missing or unreadable files are logged and skipped.
+   */
+  async loadFiles(fileRefs: Record<string, string>): Promise<BinaryFileData[]> {
+    const files: BinaryFileData[] = []
+
+    for (const [fileId, hash] of Object.entries(fileRefs)) {
+      try {
+        const fileStr = await this.blobs.read(fileKey(hash))
+        if (!fileStr) {
+          logger.warn('Missing file:', fileId, hash)
+          continue
+        }
+        // The same content may be known under different ids in different drawings
+        files.push({ ...JSON.parse(fileStr), id: fileId })
+      } catch (e) {
+        logger.warn('Failed to load file:', fileId, e)
+      }
+    }
+
+    return files
+  }
+
+  /**
+   * Files a scene shows: those it holds, plus the rest from the asset store
+   */
+  async loadSceneFiles(data: ExcalidrawData): Promise<BinaryFiles> {
+    const files: BinaryFiles = { ...data.files }
+    const missing = Object.fromEntries(
+      Object.entries(data.fileRefs ?? {}).filter(([fileId]) => !files[fileId])
+    )
+    for (const file of await this.loadFiles(missing)) {
+      files[file.id] = file
+    }
+    return files
+  }
+
+  /**
+   * Remove stored files no drawing references any more
+   * Returns the number of files removed.
+   */
+  async collectGarbage(): Promise<number> {
+    // Under the lock so a concurrent save can't add a file mid-scan
+    return this.lock.run(() => this.sweepFiles())
+  }
+
+  private async sweepFiles(): Promise<number> {
+    const meta = await this.loadMeta()
+    // Quarantined scenes are kept for recovery, so their images are too
+    const quarantined = (await this.backend.allKeys())
+      .filter((key) => key.startsWith(QUARANTINE_KEY_PREFIX))
+      .map((key) => key.slice(QUARANTINE_KEY_PREFIX.length))
+    const scenes = [
+      ...meta.map((m) => ({ id: m.id, key: drawingKey(m.id) })),
+      ...quarantined.map((id) => ({ id, key: quarantineKey(id) })),
+    ]
+
+    // Files only an older version uses must survive for restore
+    const referenced = await this.history.referencedFileHashes(scenes.map((scene) => scene.id))
+    for (const { id, key } of scenes) {
+      try {
+        const drawingStr = await this.blobs.read(key)
+        if (!drawingStr) continue
+        const stored = JSON.parse(drawingStr) as Drawing
+        Object.values(stored.data?.fileRefs ?? {}).forEach((hash) => referenced.add(hash))
+      } catch (e) {
+        // Keep everything if we can't tell what an unreadable drawing uses
+        logger.warn('Skipping garbage collection, unreadable drawing:', id, e)
+        return 0
+      }
+    }
+
+    let removed = 0
+    for (const key of await this.backend.allKeys()) {
+      if (!isFileKey(key) || referenced.has(hashFromFileKey(key))) continue
+      await this.blobs.remove(key)
+      this.fileHashes?.delete(hashFromFileKey(key))
+      removed++
+    }
+
+    if (removed > 0) {
+      logger.info('Removed unreferenced files:', removed)
+    }
+    return removed
+  }
+
+  /**
+   * Create an empty drawing and add it to the front of the index
+   */
+  async create(name: string, tags: string[] = []): Promise<Drawing> {
+    const now = getCurrentTimestamp()
+    const drawing: Drawing = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id: generateId(),
+      name,
+      tags,
+      data: { elements: [], files: undefined },
+      createdAt: now,
+      updatedAt: now,
+      revision: 1,
+    }
+
+    await this.lock.run(async () => {
+      const txId = await this.wal.begin({ op: 'create', id: drawing.id, entry: toMeta(drawing, 0) })
+      const entry = await this.write(drawing)
+      await this.mutateMeta((meta) => [entry, ...meta])
+      await this.wal.commit(txId)
+    })
+
+    logger.debug('Created drawing:', drawing.id, name)
+    this.emit()
+    return drawing
+  }
+
+  /**
+   * Persist a drawing, stamping `updatedAt` and bumping `revision`
+   * Throws ConflictError if the stored drawing has changed since the
+   * revision `drawing` was based on, unless `force` is set. The drawing
+   * returned has `fileRefs` as stored.
+   */
+  async save(drawing: Drawing, options: SaveOptions = {}): Promise<Drawing> {
+    const updated = await this.lock.run(async () => {
+      // Compare against storage, not a cache another window may have outdated
+      this.meta = null
+      const previous = await this.getMeta(drawing.id)
+      const storedRevision = previous?.revision ?? 0
+
+      if (previous && !options.force && this.isConflict(drawing, storedRevision)) {
+        this.cache.delete(drawing.id)
+        const remote = await this.get(drawing.id)
+        if (remote) throw new ConflictError(drawing, remote)
+      }
+
+      const next: Drawing = {
+        ...drawing,
+        updatedAt: getCurrentTimestamp(),
+        revision: storedRevision + 1,
+      }
+      const previousData = (this.cache.get(drawing.id) ?? await this.get(drawing.id))?.data
+      const entry = await this.write(next, previous ?? undefined, previousData?.fileRefs)
+      await this.mutateMeta((meta) => upsert(meta, entry))
+      this.ownRevisions.set(drawing.id, next.revision!)
+      await this.recordSnapshot(drawing.id, entry, next.thumbnail)
+      // The editor's data carries files, not refs: hand back the refs stored,
+      // which the editor needs to lazy-load images and to tell unsaved ones
+      const { fileRefs } = this.cache.get(drawing.id)!.data
+      return { ...next, data: { ...next.data, fileRefs } }
+    })
+
+    logger.debug('Saved drawing:', drawing.id, 'revision', updated.revision)
+    this.emit()
+    return updated
+  }
+
+  /**
+   * Update name and/or tags
+   * Only the metadata index is rewritten; the scene blob is left alone.
+   */
+  async updateMeta(id: string, updates: DrawingMetaUpdates): Promise<DrawingMeta | null> {
+    let updated: DrawingMeta | null = null
+
+    await this.lock.run(() => this.mutateMeta((meta) => {
+      const current = meta.find((m) => m.id === id)
+      if (!current) return meta
+
+      updated = {
+        ...current,
+        name: updates.name ?? current.name,
+        tags: updates.tags ?? current.tags,
+        updatedAt: getCurrentTimestamp(),
+        revision: (current.revision ?? 0) + 1,
+      }
+      this.ownRevisions.set(id, updated.revision!)
+      return upsert(meta, updated)
+    }))
+
+    if (!updated) {
+      logger.warn('Drawing not found:', id)
+      return null
+    }
+
+    const { name, tags, updatedAt, revision } = updated as DrawingMeta
+    const cached = this.cache.get(id)
+    if (cached) {
+      this.cache.set(id, { ...cached, name, tags, updatedAt, revision })
+    }
+
+    logger.debug('Updated drawing meta:', id)
+    this.emit()
+    return updated
+  }
+
+  /**
+   * Turn linked export on or off (null)
+   * A display setting, not an edit: doesn't bump the revision, so open
+   * editors don't conflict.
+   */
+  async setLinkedExport(id: string, format: DrawingMeta['linkedExport'] | null): Promise<DrawingMeta | null> {
+    let updated: DrawingMeta | null = null
+
+    await this.lock.run(() => this.mutateMeta((meta) => {
+      const current = meta.find((m) => m.id === id)
+      if (!current) return meta
+      updated = { ...current, linkedExport: format ?? undefined }
+      return upsert(meta, updated)
+    }))
+
+    if (!updated) {
+      logger.warn('Drawing not found:', id)
+      return null
+    }
+    this.emit()
+    return updated
+  }
+
+  /**
+   * Store where a drawing is scrolled to, and the editor preferences
+   * Looking around isn't an edit: the revision and `updatedAt` stay, so
+   * the dashboard order holds and other windows don't see a conflict.
+   * Returns false if the drawing is gone or in the Trash.
+   */
+  async saveViewState(id: string, appState: NonNullable<ExcalidrawData['appState']>): Promise<boolean> {
+    return this.lock.run(async () => {
+      // Rewrite the scene as stored, not as this window last saw it
+      this.meta = null
+      this.cache.delete(id)
+      const meta = await this.getMeta(id)
+      const drawing = meta && !meta.deletedAt ? await this.get(id) : null
+      if (!meta || !drawing) return false
+
+      const entry = await this.write({ ...drawing, data: { ...drawing.data, appState } }, meta, drawing.data.fileRefs)
+      await this.mutateMeta((current) => upsert(current, entry))
+      return true
+    })
+  }
+
+  /**
+   * Version history of a drawing, newest first
+   */
+  async listSnapshots(id: string): Promise<SnapshotMeta[]> {
+    return this.history.list(id)
+  }
+
+  async getSnapshotThumbnail(id: string, snapshotId: string): Promise<string | null> {
+    return this.history.readThumbnail(id, snapshotId)
+  }
+
+  /**
+   * Load a snapshot as a drawing, thumbnail included
+   */
+  async getSnapshot(id: string, snapshotId: string): Promise<Drawing | null> {
+    const snapshot = await this.history.read(id, snapshotId)
+    if (!snapshot) return null
+
+    const thumbnail = await this.history.readThumbnail(id, snapshotId)
+    return { ...migrateDrawing(snapshot).drawing, thumbnail: thumbnail ?? undefined }
+  }
+
+  /**
+   * Make a snapshot's scene the current version of its drawing
+   * Saved like any other edit, so the replaced version stays in history.
+   */
+  async restoreSnapshot(id: string, snapshotId: string): Promise<Drawing | null> {
+    const [current, snapshot] = await Promise.all([this.get(id), this.getSnapshot(id, snapshotId)])
+    if (!current || !snapshot) return null
+
+    logger.info('Restoring snapshot:', id, snapshotId)
+    return this.save({ ...current, data: snapshot.data, thumbnail: snapshot.thumbnail }, { force: true })
+  }
+
+  /**
+   * Copy a snapshot's scene into a new drawing
+   */
+  async forkSnapshot(id: string, snapshotId: string, name: string): Promise<Drawing | null> {
+    const [current, snapshot] = await Promise.all([this.getMeta(id), this.getSnapshot(id, snapshotId)])
+    if (!snapshot) return null
+
+    const created = await this.create(name, current?.tags ?? snapshot.tags)
+    return this.save({ ...created, data: snapshot.data, thumbnail: snapshot.thumbnail })
+  }
+
+  /**
+   * Ids among `ids` that already exist in the library, trashed or not
+   */
+  async findExisting(ids: string[]): Promise<string[]> {
+    const known = new Set((await this.loadMeta()).map((m) => m.id))
+    return ids.filter((id) => known.has(id))
+  }
+
+  /**
+   * Collect every drawing, thumbnail and referenced file into one archive
+   * Drawings that can't be read are logged and left out.
+   */
+  async exportLibrary(): Promise<LibraryBackup> {
+    const drawings: BackupDrawing[] = []
+    const files: Record<string, BackupFile> = {}
+
+    for (const meta of await this.loadMeta()) {
+      try {
+        const drawing = await this.get(meta.id)
+        if (!drawing) continue
+
+        const fileRefs: Record<string, string> = {}
+        for (const [fileId, hash] of Object.entries(drawing.data.fileRefs ?? {})) {
+          if (!files[hash]) {
+            const fileStr = await this.blobs.read(fileKey(hash))
+            if (!fileStr) continue
+            files[hash] = JSON.parse(fileStr)
+          }
+          fileRefs[fileId] = hash
+        }
+
+        const { files: _files, ...data } = drawing.data
+        const thumbnail = await this.getThumbnail(meta.id)
+        drawings.push({
+          ...drawing,
+          data: { ...data, fileRefs },
+          thumbnail: thumbnail ?? undefined,
+          ...(meta.deletedAt ? { deletedAt: meta.deletedAt } : {}),
+        })
+      } catch (e) {
+        logger.warn('Leaving unreadable drawing out of export:', meta.id, e)
+      }
+    }
+
+    return {
+      manifest: {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: getCurrentTimestamp(),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        drawingCount: drawings.length,
+        fileCount: Object.keys(files).length,
+      },
+      drawings,
+      files,
+    }
+  }
+
+  /**
+   * Write a validated archive into the library
+   * Files are stored first so no imported drawing points at a missing
+   * file. Drawings whose id already exists are skipped, overwritten or
+   * imported under a new id, depending on `mode`.
+   */
+  async importLibrary(backup: LibraryBackup, mode: CollisionMode): Promise<ImportResult> {
+    const result: ImportResult = { imported: 0, skipped: 0, overwritten: 0, duplicated: 0 }
+
+    await this.lock.run(async () => {
+      // Re-hash rather than trust the archive's keys
+      const hashes = new Map<string, string>()
+      const known = await this.loadFileHashes()
+      for (const [archivedHash, file] of Object.entries(backup.files)) {
+        const hash = await hashFile(file)
+        hashes.set(archivedHash, hash)
+        if (!known.has(hash)) {
+          await this.blobs.write(fileKey(hash), JSON.stringify(file))
+          known.add(hash)
+        }
+      }
+
+      this.meta = null
+      const existing = new Map((await this.loadMeta()).map((m) => [m.id, m]))
+
+      for (const { deletedAt, ...archived } of backup.drawings) {
+        const fileRefs = Object.fromEntries(
+          Object.entries(archived.data.fileRefs ?? {}).map(([fileId, hash]) => [fileId, hashes.get(hash) ?? hash])
+        )
+        let drawing: Drawing = { ...archived, data: { ...archived.data, fileRefs } }
+        const current = existing.get(drawing.id)
+
+        if (current && mode === 'skip') {
+          result.skipped++
+          continue
+        }
+
+        if (current && mode === 'overwrite') {
+          // A new revision, so editors with the old version open see a conflict
+          drawing = { ...drawing, revision: (current.revision ?? 0) + 1 }
+          const entry = await this.write(drawing, current)
+          await this.mutateMeta((meta) => upsert(meta, { ...entry, deletedAt }))
+          await this.recordSnapshot(drawing.id, entry, drawing.thumbnail)
+          result.overwritten++
+          continue
+        }
+
+        if (current) {
+          drawing = { ...drawing, id: generateId() }
+          result.duplicated++
+        } else {
+          result.imported++
+        }
+
+        const txId = await this.wal.begin({ op: 'create', id: drawing.id, entry: toMeta(drawing, 0) })
+        const entry = await this.write(drawing)
+        await this.mutateMeta((meta) => [{ ...entry, deletedAt }, ...meta])
+        await this.wal.commit(txId)
+        await this.recordSnapshot(drawing.id, entry, drawing.thumbnail)
+      }
+    })
+
+    logger.info('Imported library:', result)
+    this.emit()
+    return result
+  }
+
+  /**
+   * Move a drawing to the Trash
+   * Nothing but the index entry changes, so restoring is lossless.
+   */
+  async trash(id: string): Promise<void> {
+    await this.lock.run(() => this.mutateMeta((meta) =>
+      meta.map((m) => (m.id === id ? { ...m, deletedAt: getCurrentTimestamp() } : m))
+    ))
+
+    logger.debug('Trashed drawing:', id)
+    this.emit()
+  }
+
+  /**
+   * Take a drawing back out of the Trash
+   */
+  async restore(id: string): Promise<void> {
+    await this.lock.run(() => this.mutateMeta((meta) =>
+      meta.map((m) => {
+        if (m.id !== id) return m
+        const { deletedAt: _deletedAt, ...rest } = m
+        return rest
+      })
+    ))
+
+    logger.debug('Restored drawing:', id)
+    this.emit()
+  }
+
+  /**
+   * Permanently delete trashed drawings older than the retention period
+   * A retention of 0 days disables auto-purge. Returns the number purged.
+   */
+  async purgeTrash(retentionDays: number): Promise<number> {
+    if (retentionDays <= 0) return 0
+
+    const cutoff = getCurrentTimestamp() - retentionDays * DAY_MS
+    const expired = (await this.listTrash()).filter((m) => m.deletedAt! < cutoff)
+    for (const { id } of expired) {
+      await this.delete(id)
+    }
+
+    if (expired.length > 0) {
+      logger.info('Purged drawings from Trash:', expired.length)
+    }
+    return expired.length
+  }
+
+  /**
+   * Permanently remove a drawing, its thumbnail and its index entry
+   */
+  async delete(id: string): Promise<void> {
+    await this.lock.run(async () => {
+      const txId = await this.wal.begin({ op: 'delete', id })
+      await this.removeDrawing(id)
+      await this.wal.commit(txId)
+    })
+
+    logger.debug('Deleted drawing:', id)
+    this.emit()
+    this.emitDelete([id])
+  }
+
+  /**
+   * Finish or undo operations interrupted by a crash or closed window
+   * An interrupted create is rolled forward if its scene was written and
+   * rolled back otherwise; an interrupted delete is always rolled forward.
+   */
+  async recover(): Promise<number> {
+    const recovered = await this.lock.run(async () => {
+      const pending = await this.wal.pending()
+      const deleted: string[] = []
+
+      for (const { key, record } of pending) {
+        if (record?.op === 'create') {
+          const hasScene = !!(await this.backend.getItem(drawingKey(record.id)))
+          if (hasScene) {
+            logger.info('Rolling forward interrupted create:', record.id)
+            await this.mutateMeta((meta) => meta.some((m) => m.id === record.id) ? meta : [record.entry, ...meta])
+          } else {
+            logger.info('Rolling back interrupted create:', record.id)
+            await this.removeDrawing(record.id)
+          }
+        } else if (record?.op === 'delete') {
+          logger.info('Rolling forward interrupted delete:', record.id)
+          await this.removeDrawing(record.id)
+          deleted.push(record.id)
+        }
+        await this.backend.removeItem(key)
+      }
+
+      return { count: pending.length, deleted }
+    })
+
+    if (recovered.count > 0) this.emit()
+    this.emitDelete(recovered.deleted)
+    return recovered.count
+  }
+
+  /**
+   * Scan storage for drift between the index and stored scenes
+   */
+  async checkIntegrity(): Promise<IntegrityReport> {
+    return this.lock.run(async () => {
+      this.meta = null
+      const meta = await this.loadMeta()
+      const metaById = new Map(meta.map((m) => [m.id, m]))
+      const keys = await this.backend.allKeys()
+      const storedIds = keys
+        .filter((key) => key.startsWith(DRAWING_KEY_PREFIX))
+        .map((key) => key.slice(DRAWING_KEY_PREFIX.length))
+      const stored = new Set(storedIds)
+      const issues: IntegrityIssue[] = []
+
+      for (const m of meta) {
+        if (!stored.has(m.id)) issues.push({ kind: 'missing', id: m.id, name: m.name })
+      }
+
+      for (const id of storedIds) {
+        let raw: string | null
+        try {
+          raw = await this.blobs.read(drawingKey(id))
+        } catch (e) {
+          issues.push({ kind: 'corrupt', id, name: metaById.get(id)?.name, error: e instanceof Error ? e.message : String(e) })
+          continue
+        }
+        if (!raw) continue
+
+        const parsed = parseScene(raw)
+        const indexed = metaById.get(id)
+        if (!parsed.ok) {
+          issues.push({ kind: 'corrupt', id, name: indexed?.name, error: parsed.error })
+        } else if (!indexed) {
+          issues.push({ kind: 'orphan', id, name: parsed.drawing.name })
+        } else if (parsed.invalidCount > 0) {
+          issues.push({
+            kind: 'invalid-elements',
+            id,
+            name: indexed.name,
+            invalidCount: parsed.invalidCount,
+            totalCount: parsed.drawing.data.elements.length,
+          })
+        }
+      }
+
+      return {
+        scannedAt: getCurrentTimestamp(),
+        indexedCount: meta.length,
+        storedCount: storedIds.length,
+        quarantined: keys
+          .filter((key) => key.startsWith(QUARANTINE_KEY_PREFIX))
+          .map((key) => key.slice(QUARANTINE_KEY_PREFIX.length)),
+        issues,
+      }
+    })
+  }
+
+  /**
+   * Add index entries for stored scenes the index doesn't list
+   */
+  async reindexOrphans(ids: string[]): Promise<number> {
+    let reindexed = 0
+
+    await this.lock.run(async () => {
+      for (const id of ids) {
+        const raw = await this.blobs.read(drawingKey(id))
+        const parsed = raw ? parseScene(raw) : null
+        if (!parsed?.ok) continue
+
+        const now = getCurrentTimestamp()
+        const drawing: Drawing = {
+          ...parsed.drawing,
+          id,
+          name: parsed.drawing.name || 'Recovered drawing',
+          createdAt: parsed.drawing.createdAt || now,
+          updatedAt: parsed.drawing.updatedAt || now,
+        }
+        const entry = await this.write(drawing, { thumbnailKey: thumbnailKey(id) }, drawing.data.fileRefs)
+        await this.mutateMeta((meta) => upsert(meta, entry))
+        reindexed++
+      }
+    })
+
+    logger.info('Re-indexed orphaned drawings:', reindexed)
+    this.emit()
+    return reindexed
+  }
+
+  /**
+   * Move scenes aside to `quarantine-<id>` and drop them from the index
+   * The raw data is kept so it can be inspected or recovered by hand,
+   * along with the drawing's version history and thumbnail.
+   */
+  async quarantine(ids: string[]): Promise<void> {
+    await this.lock.run(async () => {
+      for (const id of ids) {
+        // As stored, chunks included, so even an undecodable scene keeps
+        // every part that survived
+        await this.blobs.copyRaw(drawingKey(id), quarantineKey(id))
+        await this.blobs.remove(drawingKey(id))
+        this.cache.delete(id)
+        await this.mutateMeta((meta) => meta.filter((m) => m.id !== id))
+      }
+    })
+
+    logger.info('Quarantined drawings:', ids.length)
+    this.emit()
+  }
+
+  /**
+   * Remove the elements that fail validation from stored scenes
+   * The rest of each scene is kept; the version before the repair stays
+   * in history. Returns the number of drawings repaired.
+   */
+  async dropInvalidElements(ids: string[]): Promise<number> {
+    let repaired = 0
+
+    await this.lock.run(async () => {
+      this.meta = null
+      for (const id of ids) {
+        const raw = await this.blobs.read(drawingKey(id))
+        const parsed = raw ? parseScene(raw) : null
+        const meta = await this.getMeta(id)
+        if (!parsed?.ok || !meta || parsed.invalidCount === 0) continue
+
+        const drawing: Drawing = {
+          ...parsed.drawing,
+          id,
+          name: meta.name,
+          tags: meta.tags,
+          createdAt: meta.createdAt,
+          updatedAt: getCurrentTimestamp(),
+          revision: (meta.revision ?? 0) + 1,
+          data: { ...parsed.drawing.data, elements: parsed.drawing.data.elements.filter(isValidElement) },
+        }
+        const entry = await this.write(drawing, meta, drawing.data.fileRefs)
+        await this.mutateMeta((current) => upsert(current, entry))
+        await this.recordSnapshot(id, entry)
+        repaired++
+      }
+    })
+
+    logger.info('Dropped invalid elements from drawings:', repaired)
+    this.emit()
+    return repaired
+  }
+
+  /**
+   * Drop index entries whose scene no longer exists
+   */
+  async removeIndexEntries(ids: string[]): Promise<void> {
+    await this.lock.run(() => this.mutateMeta((meta) => meta.filter((m) => !ids.includes(m.id))))
+    this.emit()
+  }
+
+  private async removeDrawing(id: string) {
+    await this.blobs.remove(drawingKey(id))
+    await this.blobs.remove(thumbnailKey(id))
+    await this.history.removeAll(id)
+    this.cache.delete(id)
+    this.thumbnails.delete(thumbnailKey(id))
+    await this.mutateMeta((meta) => meta.filter((m) => m.id !== id))
+  }
+
+  /**
+   * Whether storage moved on since the revision a save was based on
+   * Revisions this window wrote itself don't count, so a save that
+   * overlaps an earlier one from the same editor goes through.
+   */
+  private isConflict(drawing: Drawing, storedRevision: number): boolean {
+    const baseRevision = drawing.revision ?? 0
+    return storedRevision !== baseRevision && storedRevision !== this.ownRevisions.get(drawing.id)
+  }
+
+  /**
+   * Add the just-written scene to the drawing's version history
+   * History is best effort; a failure here never fails the save.
+   */
+  private async recordSnapshot(id: string, entry: DrawingMeta, thumbnail?: string) {
+    const stored = this.cache.get(id)
+    if (!stored) return
+
+    try {
+      const snapshotThumbnail = thumbnail ?? (entry.thumbnailKey ? await this.blobs.read(entry.thumbnailKey) : null)
+      await this.history.record(stored, snapshotThumbnail)
+    } catch (e) {
+      logger.warn('Failed to record snapshot:', id, e)
+    }
+  }
+
+  /**
+   * Write scene and thumbnail, returning the matching metadata entry
+   * Without a new thumbnail the previous one is kept, unless the canvas
+   * is now empty. The linked export setting carries over from `previous`.
+   */
+  private async write(
+    drawing: Drawing,
+    previous?: Pick<DrawingMeta, 'thumbnailKey' | 'thumbnailHash' | 'linkedExport'>,
+    previousFileRefs?: Record<string, string>
+  ): Promise<DrawingMeta> {
+    // Runs any pending migrations so the stamped schemaVersion is accurate
+    const { thumbnail, ...rest } = migrateDrawing(drawing).drawing
+    const stored: Drawing = { ...rest, data: await this.externalizeFiles(rest.data, previousFileRefs) }
+    const byteSize = await this.blobs.write(drawingKey(drawing.id), JSON.stringify(stored))
+
+    const entry = toMeta(stored, byteSize)
+    entry.linkedExport = previous?.linkedExport
+    if (thumbnail) {
+      entry.thumbnailKey = thumbnailKey(drawing.id)
+      await this.blobs.write(entry.thumbnailKey, thumbnail)
+      this.thumbnails.set(entry.thumbnailKey, thumbnail)
+    } else if (entry.elementCount === 0) {
+      await this.blobs.remove(thumbnailKey(drawing.id))
+      this.thumbnails.delete(thumbnailKey(drawing.id))
+    } else {
+      entry.thumbnailKey = previous?.thumbnailKey
+      entry.thumbnailHash = previous?.thumbnailHash
+    }
+
+    this.cache.set(drawing.id, stored)
+    return entry
+  }
+
+  /**
+   * Move embedded files into the content-addressed store
+   * Files the editor hasn't loaded yet keep their previous reference.
+   */
+  private async externalizeFiles(
+    data: ExcalidrawData,
+    previousRefs: Record<string, string> = {}
+  ): Promise<ExcalidrawData> {
+    const { files, ...rest } = data
+    const fileRefs: Record<string, string> = {}
+
+    for (const fileId of getReferencedFileIds(data.elements)) {
+      const file = files?.[fileId]
+      if (!file) {
+        const hash = previousRefs[fileId] ?? data.fileRefs?.[fileId]
+        if (hash) fileRefs[fileId] = hash
+        continue
+      }
+
+      const hash = previousRefs[fileId] ?? await hashFile(file)
+      const known = await this.loadFileHashes()
+      if (!known.has(hash)) {
+        const { id: _id, ...content } = file
+        await this.blobs.write(fileKey(hash), JSON.stringify(content))
+        known.add(hash)
+      }
+      fileRefs[fileId] = hash
+    }
+
+    return { ...rest, fileRefs }
+  }
+
+  private async loadFileHashes(): Promise<Set<string>> {
+    if (!this.fileHashes) {
+      const keys = await this.backend.allKeys()
+      this.fileHashes = new Set(keys.filter(isFileKey).map(hashFromFileKey))
+    }
+    return this.fileHashes
+  }
+
+  /**
+   * Read-modify-write the metadata index
+   * Must run under the write lock. The index is re-read from the backend
+   * so changes made by other windows aren't overwritten by a stale cache.
+   */
+  private async mutateMeta(fn: (meta: DrawingMeta[]) => DrawingMeta[]) {
+    this.meta = null
+    const meta = await this.loadMeta()
+    await this.writeMeta(fn(meta))
+  }
+
+  private async loadMeta(): Promise<DrawingMeta[]> {
+    if (this.meta) return this.meta
+
+    const metaStr = await this.blobs.read(META_INDEX_KEY)
+    this.meta = metaStr ? JSON.parse(metaStr) : await this.migrateLegacyIndex()
+    return this.meta!
+  }
+
+  private async writeMeta(meta: DrawingMeta[]) {
+    await this.blobs.write(META_INDEX_KEY, JSON.stringify(meta))
+    this.meta = meta
+  }
+
+  /**
+   * Build the metadata index from the old id-only index
+   * Each blob is parsed once; inline thumbnails are moved to their own key.
+   */
+  private async migrateLegacyIndex(): Promise<DrawingMeta[]> {
+    const indexStr = await this.backend.getItem(LEGACY_INDEX_KEY)
+    const index: string[] = indexStr ? JSON.parse(indexStr) : []
+    if (index.length === 0) return []
+
+    logger.info('Building metadata index for', index.length, 'drawings')
+
+    const meta: DrawingMeta[] = []
+    for (const id of index) {
+      try {
+        const drawingStr = await this.blobs.read(drawingKey(id))
+        if (!drawingStr) continue
+        meta.push(await this.write(JSON.parse(drawingStr)))
+      } catch (e) {
+        logger.warn('Failed to parse drawing:', id, e)
+      }
+    }
+
+    await this.writeMeta(meta)
+    await this.backend.removeItem(LEGACY_INDEX_KEY)
+    return meta
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => {
+      try {
+        listener()
+      } catch (e) {
+        logger.error('Store listener failed:', e)
+      }
+    })
+  }
+
+  private emitDelete(ids: string[]) {
+    for (const id of ids) {
+      this.deleteListeners.forEach((listener) => {
+        try {
+          listener(id)
+        } catch (e) {
+          logger.error('Store delete listener failed:', e)
+        }
+      })
+    }
+  }
+}
+
+function isOutdated(meta: DrawingMeta): boolean {
+  return getSchemaVersion(meta) < CURRENT_SCHEMA_VERSION
+}
+
+/**
+ * Replace or prepend an index entry
+ * A rewritten scene stays in the Trash if it was there.
+ */
+function upsert(meta: DrawingMeta[], entry: DrawingMeta): DrawingMeta[] {
+  return meta.some((m) => m.id === entry.id)
+    ? meta.map((m) => (m.id === entry.id ? { ...entry, deletedAt: entry.deletedAt ?? m.deletedAt } : m))
+    : [entry, ...meta]
+}
+
+/**
+ * Derive the metadata index entry for a drawing
+ */
+export function toMeta(drawing: Drawing, byteSize: number): DrawingMeta {
+  return {
+    id: drawing.id,
+    name: drawing.name,
+    tags: drawing.tags,
+    createdAt: drawing.createdAt,
+    updatedAt: drawing.updatedAt,
+    schemaVersion: drawing.schemaVersion,
+    revision: drawing.revision,
+    elementCount: drawing.data.elements.filter((e) => !e.isDeleted).length,
+    byteSize,
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Content-addressed storage for image files embedded in drawings
+ *
+ * Each BinaryFileData is stored once under `file-<sha256>` and drawings
+ * keep a `fileRefs` map from Excalidraw file id to content hash, so the
+ * same screenshot pasted into several drawings is stored a single time.
+ */
+
+import type { BinaryFileData } from '@excalidraw/excalidraw/types/types'
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types'
+
+export const FILE_KEY_PREFIX = 'file-'
+
+export function fileKey(hash: string): string {
+  return `${FILE_KEY_PREFIX}${hash}`
+}
+
+export function isFileKey(key: string): boolean {
+  return key.startsWith(FILE_KEY_PREFIX)
+}
+
+export function hashFromFileKey(key: string): string {
+  return key.slice(FILE_KEY_PREFIX.length)
+}
+
+/**
+ * SHA-256 of a file's data URL, hex encoded
+ */
+export async function hashFile(file: Pick<BinaryFileData, 'dataURL'>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(file.dataURL))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * File ids referenced by elements in a scene
+ */
+export function getReferencedFileIds(elements: readonly ExcalidrawElement[]): Set<string> {
+  const ids = new Set<string>()
+  for (const element of elements) {
+    if (element.type === 'image' && element.fileId && !element.isDeleted) {
+      ids.add(element.fileId)
+    }
+  }
+  return ids
+}
@@ -0,0 +1,91 @@
+/**
+ * Storage backends for the drawing store
+ * A backend is a plain async key/value store; everything above it
+ * (index layout, caching, serialization) lives in DrawingStore.
+ */
+
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null | undefined>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+  allKeys(): Promise<string[]>
+  /** Largest value, in characters, a single item may hold */
+  maxItemSize?: number
+}
+
+/**
+ * Logseq plugin sandbox storage (files under assets/storages/<plugin-id>)
+ * The underlying storage is created lazily so the backend can be
+ * constructed before `logseq.ready` resolves.
+ */
+export class SandboxStorageBackend implements StorageBackend {
+  // Values travel to the host over postMessage and land in one file each;
+  // keep single items modest so huge scenes don't stall the bridge
+  maxItemSize = 1024 * 1024
+
+  private storage: ReturnType<typeof logseq.Assets.makeSandboxStorage> | null = null
+
+  private get sandbox() {
+    if (!this.storage) {
+      this.storage = logseq.Assets.makeSandboxStorage()
+    }
+    return this.storage
+  }
+
+  async getItem(key: string) {
+    return this.sandbox.getItem(key)
+  }
+
+  async setItem(key: string, value: string) {
+    await this.sandbox.setItem(key, value)
+  }
+
+  async removeItem(key: string) {
+    await this.sandbox.removeItem(key)
+  }
+
+  async allKeys() {
+    return this.sandbox.allKeys()
+  }
+}
+
+/**
+ * In-memory backend for tests and for running the UI outside Logseq
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private items = new Map<string, string>()
+
+  /** `maxItemSize` makes large values chunk, as they would in Logseq */
+  constructor(initial?: Record<string, string>, public maxItemSize?: number) {
+    if (initial) {
+      Object.entries(initial).forEach(([key, value]) => this.items.set(key, value))
+    }
+  }
+
+  async getItem(key: string) {
+    return this.items.get(key) ?? null
+  }
+
+  async setItem(key: string, value: string) {
+    this.items.set(key, value)
+  }
+
+  async removeItem(key: string) {
+    this.items.delete(key)
+  }
+
+  async allKeys() {
+    return Array.from(this.items.keys())
+  }
+}
+
+/**
+ * Pick the backend for the current environment
+ * Inside Logseq the plugin runs in an iframe; standalone (vite dev) it does not.
+ */
+export function createDefaultBackend(): StorageBackend {
+  if (typeof window !== 'undefined' && window.parent === window) {
+    return new MemoryStorageBackend()
+  }
+  return new SandboxStorageBackend()
+}
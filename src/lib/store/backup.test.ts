@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { BACKUP_FORMAT, BACKUP_VERSION, validateBackup } from './backup'
+import { CURRENT_SCHEMA_VERSION } from './migrations'
+
+const ELEMENT = { id: 'e', type: 'rectangle', version: 1, x: 0, y: 0, width: 1, height: 1 }
+
+function archive(overrides: Record<string, unknown> = {}) {
+  return {
+    manifest: { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: 1, schemaVersion: 2, drawingCount: 1, fileCount: 1 },
+    drawings: [{
+      id: 'd',
+      name: 'Plan',
+      tags: ['ui'],
+      createdAt: 1,
+      updatedAt: 2,
+      data: { elements: [ELEMENT], fileRefs: { img: 'hash' } },
+    }],
+    files: { hash: { mimeType: 'image/png', dataURL: 'data:image/png;base64,', created: 1 } },
+    ...overrides,
+  }
+}
+
+function errorsOf(value: unknown): string[] {
+  const result = validateBackup(value)
+  return result.ok ? [] : result.errors
+}
+
+describe('validateBackup', () => {
+  it('accepts a well-formed archive', () => {
+    expect(validateBackup(archive())).toEqual({ ok: true, backup: archive() })
+  })
+
+  it('rejects anything that isn\'t an archive', () => {
+    expect(errorsOf(null)).toEqual(['Not a library archive'])
+    expect(errorsOf({ manifest: { format: 'other' } })).toEqual(['Not a library archive'])
+  })
+
+  it('rejects archives from a newer format version', () => {
+    const manifest = { ...archive().manifest, version: BACKUP_VERSION + 1 }
+    expect(errorsOf(archive({ manifest }))).toEqual([`Unsupported archive version ${BACKUP_VERSION + 1}`])
+  })
+
+  it('reports drawings that don\'t match the Drawing shape', () => {
+    const [valid] = archive().drawings
+    const drawings = [
+      { ...valid, id: '' },
+      { ...valid, id: 'b', tags: 'ui' },
+      { ...valid, id: 'c', data: { elements: [{ ...ELEMENT, x: 'left' }] } },
+      { ...valid, id: 'e', schemaVersion: CURRENT_SCHEMA_VERSION + 1 },
+    ]
+    expect(errorsOf(archive({ drawings }))).toEqual([
+      'Drawing 1 has no id',
+      'Drawing 2 has invalid tags',
+      'Drawing 3 has 1 invalid element(s)',
+      'Drawing 4 was written by a newer plugin version',
+    ])
+  })
+
+  it('reports files missing from the archive', () => {
+    expect(errorsOf(archive({ files: {} }))).toEqual(['Drawing 1 references 1 file(s) missing from the archive'])
+  })
+
+  it('reports duplicate drawing ids', () => {
+    const [valid] = archive().drawings
+    expect(errorsOf(archive({ drawings: [valid, valid] }))).toEqual(['Archive contains duplicate drawing ids'])
+  })
+
+  it('caps the number of reported errors', () => {
+    const drawings = Array.from({ length: 15 }, (_, i) => ({ id: `d${i}` }))
+    const errors = errorsOf(archive({ drawings }))
+    expect(errors).toHaveLength(11)
+    expect(errors[10]).toMatch(/^\.\.\.and \d+ more$/)
+  })
+})
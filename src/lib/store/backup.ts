@@ -0,0 +1,140 @@
+/**
+ * Library backup archive
+ *
+ * One JSON document holding every drawing (metadata, scene, thumbnail)
+ * and every image file it references, plus a manifest describing the
+ * archive. Scenes reference files by content hash through `fileRefs`,
+ * exactly as in storage, so shared images are stored once.
+ */
+
+import type { BinaryFileData } from '@excalidraw/excalidraw/types/types'
+import type { Drawing } from '../../types'
+import { isValidElement } from './integrity'
+import { CURRENT_SCHEMA_VERSION } from './migrations'
+
+export const BACKUP_FORMAT = 'logseq-excalidraw-library'
+export const BACKUP_VERSION = 1
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: number
+  schemaVersion: number  // newest drawing schema the exporting plugin wrote
+  drawingCount: number
+  fileCount: number
+}
+
+/** A drawing as archived; trashed drawings keep their `deletedAt` */
+export type BackupDrawing = Drawing & { deletedAt?: number }
+
+export type BackupFile = Omit<BinaryFileData, 'id'>
+
+export interface LibraryBackup {
+  manifest: BackupManifest
+  drawings: BackupDrawing[]
+  files: Record<string, BackupFile>  // content hash -> file
+}
+
+/** How to treat an archived drawing whose id already exists */
+export type CollisionMode = 'skip' | 'overwrite' | 'duplicate'
+
+export interface ImportResult {
+  imported: number
+  skipped: number
+  overwritten: number
+  duplicated: number
+}
+
+export type BackupValidation =
+  | { ok: true; backup: LibraryBackup }
+  | { ok: false; errors: string[] }
+
+const MAX_REPORTED_ERRORS = 10
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function validateDrawing(value: unknown, index: number, files: Record<string, unknown>): string[] {
+  const label = `Drawing ${index + 1}`
+  if (!isRecord(value)) return [`${label} is not an object`]
+
+  const errors: string[] = []
+  if (typeof value.id !== 'string' || !value.id) errors.push(`${label} has no id`)
+  if (typeof value.name !== 'string') errors.push(`${label} has no name`)
+  if (typeof value.createdAt !== 'number' || typeof value.updatedAt !== 'number') {
+    errors.push(`${label} has invalid timestamps`)
+  }
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some((t) => typeof t !== 'string'))) {
+    errors.push(`${label} has invalid tags`)
+  }
+  if (value.thumbnail !== undefined && typeof value.thumbnail !== 'string') {
+    errors.push(`${label} has an invalid thumbnail`)
+  }
+  if (typeof value.schemaVersion === 'number' && value.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    errors.push(`${label} was written by a newer plugin version`)
+  }
+
+  const data = value.data
+  if (!isRecord(data) || !Array.isArray(data.elements)) {
+    errors.push(`${label} has no elements array`)
+    return errors
+  }
+  const invalid = data.elements.filter((e) => !isValidElement(e)).length
+  if (invalid > 0) errors.push(`${label} has ${invalid} invalid element(s)`)
+
+  if (data.fileRefs !== undefined) {
+    if (!isRecord(data.fileRefs)) {
+      errors.push(`${label} has invalid file references`)
+    } else {
+      const missing = Object.values(data.fileRefs).filter((hash) => typeof hash !== 'string' || !(hash in files))
+      if (missing.length > 0) errors.push(`${label} references ${missing.length} file(s) missing from the archive`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Check an archive before anything is written
+ * Every drawing must match the Drawing shape and every referenced file
+ * must be present.
+ */
+export function validateBackup(value: unknown): BackupValidation {
+  if (!isRecord(value) || !isRecord(value.manifest)) {
+    return { ok: false, errors: ['Not a library archive'] }
+  }
+
+  const { manifest } = value
+  if (manifest.format !== BACKUP_FORMAT) {
+    return { ok: false, errors: ['Not a library archive'] }
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    return { ok: false, errors: [`Unsupported archive version ${String(manifest.version)}`] }
+  }
+  if (!Array.isArray(value.drawings) || !isRecord(value.files)) {
+    return { ok: false, errors: ['Archive is missing drawings or files'] }
+  }
+
+  const files = value.files
+  const errors: string[] = []
+  for (const [hash, file] of Object.entries(files)) {
+    if (!isRecord(file) || typeof file.dataURL !== 'string' || typeof file.mimeType !== 'string') {
+      errors.push(`File ${hash.slice(0, 12)} is invalid`)
+    }
+  }
+
+  value.drawings.forEach((drawing, i) => errors.push(...validateDrawing(drawing, i, files)))
+
+  const ids = value.drawings.map((d) => (isRecord(d) ? d.id : undefined))
+  if (new Set(ids).size !== ids.length) errors.push('Archive contains duplicate drawing ids')
+
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS
+    return {
+      ok: false,
+      errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${extra} more`] : errors,
+    }
+  }
+  return { ok: true, backup: value as unknown as LibraryBackup }
+}
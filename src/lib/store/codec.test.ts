@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { MemoryStorageBackend } from './backends'
+import { BlobCodec, CHUNK_KEY_PREFIX, chunkKey } from './codec'
+
+const KEY = 'drawing-a'
+
+// Random text doesn't compress, so it always spans several chunks
+function largeJson(): string {
+  const ids = Array.from({ length: 40 }, () => crypto.randomUUID())
+  return JSON.stringify({ ids })
+}
+
+function setup() {
+  const backend = new MemoryStorageBackend(undefined, 256)
+  return { backend, codec: new BlobCodec(backend) }
+}
+
+async function chunksOf(backend: MemoryStorageBackend, key: string): Promise<string[]> {
+  return (await backend.allKeys()).filter((k) => k.startsWith(`${CHUNK_KEY_PREFIX}${key}`))
+}
+
+describe('BlobCodec', () => {
+  it('stores small values in a single item', async () => {
+    const { backend, codec } = setup()
+    await codec.write(KEY, '{"a":1}')
+
+    expect(await backend.getItem(KEY)).toBe('{"a":1}')
+    expect(await codec.read(KEY)).toBe('{"a":1}')
+  })
+
+  it('splits large values into chunks of one generation', async () => {
+    const { backend, codec } = setup()
+    const json = largeJson()
+    await codec.write(KEY, json)
+
+    const manifest = await backend.getItem(KEY)
+    expect(manifest).toMatch(/^chunked:\d+@\w+$/)
+    const [, count, generation] = manifest!.match(/^chunked:(\d+)@(\w+)$/)!
+    expect((await chunksOf(backend, KEY)).sort()).toEqual(
+      Array.from({ length: Number(count) }, (_, i) => chunkKey(KEY, i, generation)).sort()
+    )
+    expect(await codec.read(KEY)).toBe(json)
+  })
+
+  it('writes a rewrite under a new generation and removes the old chunks', async () => {
+    const { backend, codec } = setup()
+    await codec.write(KEY, largeJson())
+    const before = await chunksOf(backend, KEY)
+    const json = largeJson()
+    await codec.write(KEY, json)
+
+    const after = await chunksOf(backend, KEY)
+    expect(after.some((k) => before.includes(k))).toBe(false)
+    expect(await codec.read(KEY)).toBe(json)
+  })
+
+  it('removes the chunks when a large value becomes small', async () => {
+    const { backend, codec } = setup()
+    await codec.write(KEY, largeJson())
+    await codec.write(KEY, '{}')
+
+    expect(await chunksOf(backend, KEY)).toEqual([])
+    expect(await codec.read(KEY)).toBe('{}')
+  })
+
+  it('reads the older chunk layout', async () => {
+    const backend = new MemoryStorageBackend({
+      [KEY]: 'chunked:2',
+      [chunkKey(KEY, 0)]: '{"a":',
+      [chunkKey(KEY, 1)]: '1}',
+    })
+
+    expect(await new BlobCodec(backend).read(KEY)).toBe('{"a":1}')
+  })
+
+  it('fails to read a value with a missing chunk', async () => {
+    const { backend, codec } = setup()
+    await codec.write(KEY, largeJson())
+    const [first] = await chunksOf(backend, KEY)
+    await backend.removeItem(first)
+
+    await expect(codec.read(KEY)).rejects.toThrow(/Missing chunk/)
+  })
+
+  it('removes a value with its chunks and those of interrupted writes', async () => {
+    const { backend, codec } = setup()
+    await codec.write(KEY, largeJson())
+    await backend.setItem(chunkKey(KEY, 0, 'stray'), 'x')
+    await codec.remove(KEY)
+
+    expect(await backend.allKeys()).toEqual([])
+  })
+
+  it('copies a value as stored, keeping the chunks that survive', async () => {
+    const { backend, codec } = setup()
+    await codec.write(KEY, largeJson())
+    const chunks = await chunksOf(backend, KEY)
+    await backend.removeItem(chunks[0])
+
+    expect(await codec.copyRaw(KEY, 'copy')).toBe(true)
+    expect(await backend.getItem('copy')).toBe(await backend.getItem(KEY))
+    expect(await chunksOf(backend, 'copy')).toHaveLength(chunks.length - 1)
+    expect(await codec.copyRaw('nothing', 'copy-2')).toBe(false)
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Encoding of large values in storage
+ *
+ * Values are written as one of:
+ *   {...}                 plain JSON (everything written before compression)
+ *   z1:<base64>           deflate-compressed JSON
+ *   chunked:<n>@<gen>     manifest; the encoded value is split across
+ *                         `chunk-<key>@<gen>-0` ... `chunk-<key>@<gen>-<n-1>`
+ *   chunked:<n>           older manifest, chunks at `chunk-<key>-<i>`
+ *
+ * Reads accept all of them, so older drawings keep loading. Each chunked
+ * write uses a new generation, so the chunks a live manifest points at
+ * are never overwritten: a crash or a concurrent reader sees either the
+ * old value or the new one, never a mix.
+ */
+
+import type { StorageBackend } from './backends'
+
+const COMPRESSED_PREFIX = 'z1:'
+const CHUNKED_PREFIX = 'chunked:'
+export const CHUNK_KEY_PREFIX = 'chunk-'
+
+// Below this size compression isn't worth the round trip
+const MIN_COMPRESS_LENGTH = 1024
+
+/**
+ * Key of one chunk of a value; without a generation, the older layout
+ */
+export function chunkKey(key: string, index: number, generation?: string): string {
+  return generation
+    ? `${CHUNK_KEY_PREFIX}${key}@${generation}-${index}`
+    : `${CHUNK_KEY_PREFIX}${key}-${index}`
+}
+
+interface ChunkManifest {
+  count: number
+  generation?: string
+}
+
+function parseManifest(value: string | null | undefined): ChunkManifest | null {
+  const match = value?.match(/^chunked:(\d+)(?:@(\w+))?$/)
+  return match ? { count: parseInt(match[1], 10), generation: match[2] } : null
+}
+
+function chunkKeys(key: string, manifest: ChunkManifest | null): string[] {
+  if (!manifest) return []
+  return Array.from({ length: manifest.count }, (_, i) => chunkKey(key, i, manifest.generation))
+}
+
+function newGeneration(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+}
+
+function canCompress(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined'
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const response = new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream))
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export async function compress(json: string): Promise<string> {
+  if (!canCompress() || json.length < MIN_COMPRESS_LENGTH) return json
+  const bytes = await pipe(new TextEncoder().encode(json), new CompressionStream('deflate'))
+  return COMPRESSED_PREFIX + toBase64(bytes)
+}
+
+export async function decompress(value: string): Promise<string> {
+  if (!value.startsWith(COMPRESSED_PREFIX)) return value
+  if (!canCompress()) {
+    throw new Error('Compressed drawing, but DecompressionStream is not available')
+  }
+  const bytes = await pipe(fromBase64(value.slice(COMPRESSED_PREFIX.length)), new DecompressionStream('deflate'))
+  return new TextDecoder().decode(bytes)
+}
+
+/**
+ * Reads and writes encoded values, chunking any that exceed the
+ * backend's per-item limit
+ */
+export class BlobCodec {
+  constructor(private backend: StorageBackend) { }
+
+  /**
+   * Read and decode a value; returns null if the key doesn't exist
+   */
+  async read(key: string): Promise<string | null> {
+    const value = await this.backend.getItem(key)
+    if (!value) return null
+
+    const manifest = parseManifest(value)
+    if (manifest) {
+      const parts: string[] = []
+      for (const [i, partKey] of chunkKeys(key, manifest).entries()) {
+        const part = await this.backend.getItem(partKey)
+        if (part == null) {
+          // A write replaced the value while it was being read
+          if (await this.backend.getItem(key) !== value) return this.read(key)
+          throw new Error(`Missing chunk ${i + 1} of ${manifest.count} for ${key}`)
+        }
+        parts.push(part)
+      }
+      return decompress(parts.join(''))
+    }
+
+    return decompress(value)
+  }
+
+  /**
+   * Encode and write a value; returns the stored size in characters
+   * Chunks go under a new generation and are complete before the
+   * manifest switches to them; the previous chunks are removed after.
+   */
+  async write(key: string, json: string): Promise<number> {
+    const encoded = await compress(json)
+    const limit = this.backend.maxItemSize ?? Infinity
+    const previous = parseManifest(await this.backend.getItem(key))
+
+    if (encoded.length <= limit) {
+      await this.backend.setItem(key, encoded)
+    } else {
+      const manifest = { count: Math.ceil(encoded.length / limit), generation: newGeneration() }
+      for (const [i, partKey] of chunkKeys(key, manifest).entries()) {
+        await this.backend.setItem(partKey, encoded.slice(i * limit, (i + 1) * limit))
+      }
+      await this.backend.setItem(key, `${CHUNKED_PREFIX}${manifest.count}@${manifest.generation}`)
+    }
+
+    for (const partKey of chunkKeys(key, previous)) {
+      await this.backend.removeItem(partKey)
+    }
+    return encoded.length
+  }
+
+  /**
+   * Remove a value and all of its chunks, including any left behind by
+   * an interrupted write
+   */
+  async remove(key: string): Promise<void> {
+    const manifest = parseManifest(await this.backend.getItem(key))
+    await this.backend.removeItem(key)
+
+    const generationPrefix = `${CHUNK_KEY_PREFIX}${key}@`
+    const stray = (await this.backend.allKeys()).filter((k) => k.startsWith(generationPrefix))
+    for (const partKey of new Set([...chunkKeys(key, manifest), ...stray])) {
+      await this.backend.removeItem(partKey)
+    }
+  }
+
+  /**
+   * Copy a value as stored, with whichever of its chunks still exist
+   * Nothing is decoded, so this works on values that can't be read, e.g.
+   * with a chunk missing. Returns false if there was nothing to copy.
+   */
+  async copyRaw(from: string, to: string): Promise<boolean> {
+    const value = await this.backend.getItem(from)
+    if (!value) return false
+
+    const manifest = parseManifest(value)
+    const targetKeys = chunkKeys(to, manifest)
+    for (const [i, partKey] of chunkKeys(from, manifest).entries()) {
+      const part = await this.backend.getItem(partKey)
+      if (part != null) await this.backend.setItem(targetKeys[i], part)
+    }
+    await this.backend.setItem(to, value)
+    return true
+  }
+}
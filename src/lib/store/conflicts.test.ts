@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types'
+import type { Drawing } from '../../types'
+import { mergeDrawings, reconcileElements } from './conflicts'
+
+function element(id: string, version: number, props: Record<string, unknown> = {}): ExcalidrawElement {
+  return { id, version, versionNonce: 0, isDeleted: false, ...props } as unknown as ExcalidrawElement
+}
+
+function drawing(elements: ExcalidrawElement[], props: Partial<Drawing> = {}): Drawing {
+  return { id: 'd', name: 'Plan', data: { elements }, createdAt: 1, updatedAt: 1, ...props }
+}
+
+describe('reconcileElements', () => {
+  it('keeps the higher version of each element', () => {
+    const merged = reconcileElements([element('a', 3), element('b', 1)], [element('a', 2), element('b', 4)])
+    expect(merged.map((e) => [e.id, e.version])).toEqual([['a', 3], ['b', 4]])
+  })
+
+  it('breaks version ties on the lower versionNonce', () => {
+    const local = element('a', 2, { versionNonce: 9 })
+    const remote = element('a', 2, { versionNonce: 1 })
+    expect(reconcileElements([local], [remote])).toEqual([remote])
+  })
+
+  it('keeps remote order and appends local-only elements', () => {
+    const merged = reconcileElements([element('x', 1), element('a', 1)], [element('b', 1), element('a', 1)])
+    expect(merged.map((e) => e.id)).toEqual(['b', 'a', 'x'])
+  })
+
+  it('keeps a deletion unless the other side edited the element since', () => {
+    const deleted = element('a', 3, { isDeleted: true })
+    expect(reconcileElements([element('a', 2)], [deleted])).toEqual([deleted])
+    expect(reconcileElements([element('a', 4)], [deleted])).toEqual([element('a', 4)])
+  })
+})
+
+describe('mergeDrawings', () => {
+  it('bases the result on the stored revision and name', () => {
+    const merged = mergeDrawings(drawing([], { revision: 3 }), drawing([], { revision: 5, name: 'Renamed' }))
+    expect(merged.revision).toBe(5)
+    expect(merged.name).toBe('Renamed')
+  })
+
+  it('applies both sides\' tag changes since the common version', () => {
+    const base = drawing([], { tags: ['a', 'b'] })
+    const local = drawing([], { tags: ['a', 'c'] })   // removed b, added c
+    const remote = drawing([], { tags: ['a', 'b', 'd'] })  // added d
+
+    expect(mergeDrawings(local, remote, base).tags).toEqual(['a', 'd', 'c'])
+  })
+
+  it('keeps the local tags without a common version', () => {
+    const merged = mergeDrawings(drawing([], { tags: ['a'] }), drawing([], { tags: ['a', 'b'] }))
+    expect(merged.tags).toEqual(['a'])
+  })
+
+  it('combines file references', () => {
+    const local = drawing([], { data: { elements: [], fileRefs: { x: 'hx' } } })
+    const remote = drawing([], { data: { elements: [], fileRefs: { y: 'hy' } } })
+    expect(mergeDrawings(local, remote).data.fileRefs).toEqual({ x: 'hx', y: 'hy' })
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * Save conflicts between windows
+ *
+ * Every write bumps a drawing's `revision`. A save carries the revision
+ * it was based on; if storage has moved on since, because another window
+ * saved or edited the metadata, the store refuses the save with a
+ * ConflictError instead of silently overwriting.
+ */
+
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types'
+import type { Drawing } from '../../types'
+
+export class ConflictError extends Error {
+  constructor(public local: Drawing, public remote: Drawing) {
+    super(`Drawing ${local.id} was changed elsewhere (revision ${remote.revision ?? 0}, editing ${local.revision ?? 0})`)
+    this.name = 'ConflictError'
+  }
+}
+
+/**
+ * Whether the local copy of an element wins over the remote one
+ * Same rule as Excalidraw's collaboration reconciliation: the higher
+ * version wins, and on a tie the lower versionNonce does.
+ */
+function keepLocal(local: ExcalidrawElement, remote: ExcalidrawElement): boolean {
+  return local.version > remote.version ||
+    (local.version === remote.version && local.versionNonce <= remote.versionNonce)
+}
+
+/**
+ * Merge two versions of a scene element by element
+ * Remote order is kept; elements only the local side has are appended
+ * in their local order.
+ */
+export function reconcileElements(
+  local: readonly ExcalidrawElement[],
+  remote: readonly ExcalidrawElement[]
+): ExcalidrawElement[] {
+  const localById = new Map(local.map((e) => [e.id, e]))
+  const remoteIds = new Set(remote.map((e) => e.id))
+
+  const merged = remote.map((remoteElement) => {
+    const localElement = localById.get(remoteElement.id)
+    return localElement && keepLocal(localElement, remoteElement) ? localElement : remoteElement
+  })
+
+  return [...merged, ...local.filter((e) => !remoteIds.has(e.id))]
+}
+
+/**
+ * Tags after a conflict: each side's changes since the common version
+ * Without a common version the local tags are kept.
+ */
+function mergeTags(local: string[], remote: string[], base?: string[]): string[] {
+  if (!base) return local
+  const added = local.filter((t) => !base.includes(t))
+  const removed = new Set(base.filter((t) => !local.includes(t)))
+  return Array.from(new Set([...remote, ...added])).filter((t) => !removed.has(t))
+}
+
+/**
+ * Combine a conflicting local save with the stored version
+ * Elements are reconciled, tombstones included, so an element deleted
+ * on either side stays deleted unless the other side edited it since.
+ * Tags keep both sides' changes since `base`, the version both started
+ * from. The result is based on the stored revision so it can be saved
+ * without conflicting again.
+ */
+export function mergeDrawings(local: Drawing, remote: Drawing, base?: Drawing): Drawing {
+  return {
+    ...local,
+    name: remote.name,
+    tags: mergeTags(local.tags ?? [], remote.tags ?? [], base ? base.tags ?? [] : undefined),
+    revision: remote.revision,
+    data: {
+      ...local.data,
+      elements: reconcileElements(local.data.elements, remote.data.elements),
+      fileRefs: { ...remote.data.fileRefs, ...local.data.fileRefs },
+    },
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { thinSnapshots } from './history'
+import type { SnapshotMeta } from './history'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+// On a day boundary, so bucket edges are easy to reason about
+const NOW = 1000 * DAY_MS
+
+function snapshot(createdAt: number): SnapshotMeta {
+  return {
+    id: String(createdAt),
+    drawingId: 'd',
+    createdAt,
+    elementCount: 0,
+    sceneVersion: createdAt,
+    fileHashes: [],
+    hasThumbnail: false,
+  }
+}
+
+function ages(snapshots: SnapshotMeta[]): number[] {
+  return snapshots.map((s) => NOW - s.createdAt)
+}
+
+describe('thinSnapshots', () => {
+  it('keeps every snapshot from the last hour', () => {
+    const recent = [1, 5, 20, 59].map((m) => snapshot(NOW - m * MINUTE_MS))
+    expect(thinSnapshots(recent, NOW)).toHaveLength(4)
+  })
+
+  it('keeps the newest snapshot per hour within the last day', () => {
+    const kept = thinSnapshots([
+      snapshot(NOW - 2 * HOUR_MS - 10 * MINUTE_MS),
+      snapshot(NOW - 2 * HOUR_MS - 50 * MINUTE_MS),
+      snapshot(NOW - 5 * HOUR_MS - 30 * MINUTE_MS),
+    ], NOW)
+
+    expect(ages(kept)).toEqual([2 * HOUR_MS + 10 * MINUTE_MS, 5 * HOUR_MS + 30 * MINUTE_MS])
+  })
+
+  it('keeps the newest snapshot per day for 30 days', () => {
+    const older = Array.from({ length: 40 }, (_, day) => [
+      snapshot(NOW - (day + 1) * DAY_MS - HOUR_MS),
+      snapshot(NOW - (day + 1) * DAY_MS - 3 * HOUR_MS),
+    ]).flat()
+    const kept = thinSnapshots(older, NOW)
+
+    expect(kept).toHaveLength(30)
+    expect(ages(kept)).toEqual(Array.from({ length: 30 }, (_, day) => (day + 1) * DAY_MS + HOUR_MS))
+  })
+
+  it('returns the kept snapshots newest first', () => {
+    const kept = thinSnapshots([snapshot(NOW - 3 * DAY_MS), snapshot(NOW - MINUTE_MS), snapshot(NOW - 3 * HOUR_MS)], NOW)
+    expect(ages(kept)).toEqual([MINUTE_MS, 3 * HOUR_MS, 3 * DAY_MS])
+  })
+})
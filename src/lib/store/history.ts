@@ -0,0 +1,187 @@
+/**
+ * Per-drawing version history
+ *
+ * Every save records a snapshot of the scene. Snapshots are thinned by
+ * age so history stays bounded:
+ *   last hour     every snapshot
+ *   last day      newest per hour
+ *   older         newest per day, up to MAX_DAILY_SNAPSHOTS days
+ *
+ * Storage layout:
+ *   history-<drawingId>                       JSON array of SnapshotMeta, newest first
+ *   snapshot-<drawingId>-<snapshotId>         Drawing as saved
+ *   snapshot-thumb-<drawingId>-<snapshotId>   Thumbnail data URL, if any
+ *
+ * All of them go through codec.ts, like every other stored value.
+ *
+ * Snapshots reference image files by hash like drawings do, so the
+ * file garbage collector must count `fileHashes` as in use.
+ */
+
+import type { Drawing } from '../../types'
+import { generateId, getCurrentTimestamp } from '../utils'
+import type { BlobCodec } from './codec'
+
+export const HISTORY_KEY_PREFIX = 'history-'
+export const SNAPSHOT_KEY_PREFIX = 'snapshot-'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const MAX_DAILY_SNAPSHOTS = 30
+
+export interface SnapshotMeta {
+  id: string
+  drawingId: string
+  createdAt: number
+  elementCount: number
+  sceneVersion: number   // sum of element versions, to skip unchanged saves
+  fileHashes: string[]
+  hasThumbnail: boolean
+}
+
+export function historyKey(drawingId: string): string {
+  return `${HISTORY_KEY_PREFIX}${drawingId}`
+}
+
+export function snapshotKey(drawingId: string, snapshotId: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}${drawingId}-${snapshotId}`
+}
+
+export function snapshotThumbnailKey(drawingId: string, snapshotId: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}thumb-${drawingId}-${snapshotId}`
+}
+
+export function getSceneVersion(drawing: Drawing): number {
+  return drawing.data.elements.reduce((sum, e) => sum + (e.version ?? 0), 0)
+}
+
+/**
+ * Pick the snapshots to keep, newest first
+ */
+export function thinSnapshots(snapshots: SnapshotMeta[], now: number): SnapshotMeta[] {
+  const kept: SnapshotMeta[] = []
+  const buckets = new Set<string>()
+  let dailyCount = 0
+
+  for (const snapshot of [...snapshots].sort((a, b) => b.createdAt - a.createdAt)) {
+    const age = now - snapshot.createdAt
+    if (age < HOUR_MS) {
+      kept.push(snapshot)
+      continue
+    }
+
+    const bucket = age < DAY_MS
+      ? `h${Math.floor(snapshot.createdAt / HOUR_MS)}`
+      : `d${Math.floor(snapshot.createdAt / DAY_MS)}`
+    if (buckets.has(bucket)) continue
+    if (bucket.startsWith('d') && dailyCount >= MAX_DAILY_SNAPSHOTS) continue
+
+    buckets.add(bucket)
+    if (bucket.startsWith('d')) dailyCount++
+    kept.push(snapshot)
+  }
+
+  return kept
+}
+
+/**
+ * Snapshot storage for every drawing
+ * Callers must hold the store's write lock for record and removeAll.
+ */
+export class SnapshotHistory {
+  constructor(private blobs: BlobCodec) { }
+
+  async list(drawingId: string): Promise<SnapshotMeta[]> {
+    const indexStr = await this.blobs.read(historyKey(drawingId))
+    return indexStr ? JSON.parse(indexStr) : []
+  }
+
+  async read(drawingId: string, snapshotId: string): Promise<Drawing | null> {
+    const drawingStr = await this.blobs.read(snapshotKey(drawingId, snapshotId))
+    return drawingStr ? JSON.parse(drawingStr) : null
+  }
+
+  async readThumbnail(drawingId: string, snapshotId: string): Promise<string | null> {
+    return this.blobs.read(snapshotThumbnailKey(drawingId, snapshotId))
+  }
+
+  /**
+   * Snapshot a stored drawing and thin its history
+   * Skipped when the scene hasn't changed since the newest snapshot.
+   */
+  async record(drawing: Drawing, thumbnail?: string | null): Promise<SnapshotMeta | null> {
+    const snapshots = await this.list(drawing.id)
+    const sceneVersion = getSceneVersion(drawing)
+    if (snapshots[0]?.sceneVersion === sceneVersion) return null
+
+    const now = getCurrentTimestamp()
+    const snapshot: SnapshotMeta = {
+      id: generateId(),
+      drawingId: drawing.id,
+      createdAt: now,
+      elementCount: drawing.data.elements.filter((e) => !e.isDeleted).length,
+      sceneVersion,
+      fileHashes: Array.from(new Set(Object.values(drawing.data.fileRefs ?? {}))),
+      hasThumbnail: !!thumbnail,
+    }
+
+    const { thumbnail: _thumbnail, ...stored } = drawing
+    await this.blobs.write(snapshotKey(drawing.id, snapshot.id), JSON.stringify(stored))
+    if (thumbnail) {
+      await this.blobs.write(snapshotThumbnailKey(drawing.id, snapshot.id), thumbnail)
+    }
+
+    const kept = thinSnapshots([snapshot, ...snapshots], now)
+    const keptIds = new Set(kept.map((s) => s.id))
+    for (const dropped of snapshots.filter((s) => !keptIds.has(s.id))) {
+      await this.removeSnapshot(dropped)
+    }
+    await this.blobs.write(historyKey(drawing.id), JSON.stringify(kept))
+
+    return snapshot
+  }
+
+  /**
+   * Give the newest snapshot a thumbnail rendered after it was recorded
+   * Only if it still shows the scene the thumbnail was rendered from.
+   */
+  async attachThumbnail(drawingId: string, sceneVersion: number, thumbnail: string): Promise<void> {
+    const snapshots = await this.list(drawingId)
+    const newest = snapshots[0]
+    if (!newest || newest.sceneVersion !== sceneVersion) return
+
+    await this.blobs.write(snapshotThumbnailKey(drawingId, newest.id), thumbnail)
+    if (!newest.hasThumbnail) {
+      newest.hasThumbnail = true
+      await this.blobs.write(historyKey(drawingId), JSON.stringify(snapshots))
+    }
+  }
+
+  /**
+   * Remove every snapshot of a drawing
+   */
+  async removeAll(drawingId: string): Promise<void> {
+    for (const snapshot of await this.list(drawingId)) {
+      await this.removeSnapshot(snapshot)
+    }
+    await this.blobs.remove(historyKey(drawingId))
+  }
+
+  /**
+   * Hashes of every image file referenced by any snapshot
+   */
+  async referencedFileHashes(drawingIds: string[]): Promise<Set<string>> {
+    const hashes = new Set<string>()
+    for (const drawingId of drawingIds) {
+      for (const snapshot of await this.list(drawingId)) {
+        snapshot.fileHashes.forEach((hash) => hashes.add(hash))
+      }
+    }
+    return hashes
+  }
+
+  private async removeSnapshot(snapshot: SnapshotMeta) {
+    await this.blobs.remove(snapshotKey(snapshot.drawingId, snapshot.id))
+    await this.blobs.remove(snapshotThumbnailKey(snapshot.drawingId, snapshot.id))
+  }
+}
@@ -0,0 +1,31 @@
+import { DrawingStore } from './DrawingStore'
+import { ShapeLibraryStore } from './shapeLibrary'
+import { createDefaultBackend } from './backends'
+
+export { DrawingStore, META_INDEX_KEY, LEGACY_INDEX_KEY, drawingKey, thumbnailKey, toMeta } from './DrawingStore'
+export type { DrawingMetaUpdates, SaveOptions } from './DrawingStore'
+export { BACKUP_FORMAT, BACKUP_VERSION, validateBackup } from './backup'
+export type { BackupDrawing, BackupFile, BackupManifest, BackupValidation, CollisionMode, ImportResult, LibraryBackup } from './backup'
+export { ConflictError, mergeDrawings, reconcileElements } from './conflicts'
+export { SandboxStorageBackend, MemoryStorageBackend, createDefaultBackend } from './backends'
+export type { StorageBackend } from './backends'
+export { BlobCodec, CHUNK_KEY_PREFIX, chunkKey, compress, decompress } from './codec'
+export { historyKey, snapshotKey, snapshotThumbnailKey, thinSnapshots } from './history'
+export type { SnapshotMeta } from './history'
+export { CURRENT_SCHEMA_VERSION, MIGRATIONS, SchemaVersionError, getSchemaVersion, migrateDrawing } from './migrations'
+export type { Migration } from './migrations'
+export { isValidElement, parseScene, quarantineKey } from './integrity'
+export type { IntegrityIssue, IntegrityIssueKind, IntegrityReport } from './integrity'
+export { SHAPE_LIBRARY_KEY, ShapeLibraryStore, mergeLibraryEdits, shapeLibraryKey } from './shapeLibrary'
+
+const backend = createDefaultBackend()
+
+/**
+ * Shared store instance used by the plugin entry, renderer and UI
+ */
+export const drawingStore = new DrawingStore(backend)
+
+/**
+ * Excalidraw shape library, stored next to the drawings
+ */
+export const shapeLibrary = new ShapeLibraryStore(backend)
@@ -0,0 +1,74 @@
+/**
+ * Library integrity checks
+ *
+ * Compares the metadata index against the `drawing-*` keys actually in
+ * storage and validates each scene, so drift can be reported and repaired
+ * instead of drawings silently disappearing from the dashboard.
+ */
+
+import type { Drawing } from '../../types'
+
+export const QUARANTINE_KEY_PREFIX = 'quarantine-'
+
+export function quarantineKey(id: string): string {
+  return `${QUARANTINE_KEY_PREFIX}${id}`
+}
+
+export type IntegrityIssue =
+  /** Index entry whose scene is gone */
+  | { kind: 'missing'; id: string; name: string }
+  /** Scene with no index entry */
+  | { kind: 'orphan'; id: string; name?: string }
+  /** Scene that isn't valid JSON or isn't shaped like a Drawing */
+  | { kind: 'corrupt'; id: string; name?: string; error: string }
+  /** Scene whose elements fail validation */
+  | { kind: 'invalid-elements'; id: string; name: string; invalidCount: number; totalCount: number }
+
+export type IntegrityIssueKind = IntegrityIssue['kind']
+
+export interface IntegrityReport {
+  scannedAt: number
+  indexedCount: number
+  storedCount: number
+  quarantined: string[]
+  issues: IntegrityIssue[]
+}
+
+/**
+ * Check the minimal shape every Excalidraw element must have
+ */
+export function isValidElement(element: unknown): boolean {
+  if (!element || typeof element !== 'object') return false
+  const e = element as Record<string, unknown>
+  return typeof e.id === 'string'
+    && typeof e.type === 'string'
+    && typeof e.version === 'number'
+    && [e.x, e.y, e.width, e.height].every((n) => typeof n === 'number' && Number.isFinite(n))
+}
+
+export type ParsedScene =
+  | { ok: true; drawing: Drawing; invalidCount: number }
+  | { ok: false; error: string }
+
+/**
+ * Parse a stored scene and count invalid elements
+ */
+export function parseScene(raw: string): ParsedScene {
+  let value: unknown
+  try {
+    value = JSON.parse(raw)
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) }
+  }
+
+  const drawing = value as Drawing
+  if (!drawing || typeof drawing !== 'object' || typeof drawing.id !== 'string') {
+    return { ok: false, error: 'Not a drawing object' }
+  }
+  if (!drawing.data || !Array.isArray(drawing.data.elements)) {
+    return { ok: false, error: 'Missing elements array' }
+  }
+
+  const invalidCount = drawing.data.elements.filter((e) => !isValidElement(e)).length
+  return { ok: true, drawing, invalidCount }
+}
@@ -0,0 +1,27 @@
+/**
+ * Serialized write lock for multi-key store mutations
+ *
+ * Calls are queued within this window, and when the Web Locks API is
+ * available the same named lock also serializes writers in other Logseq
+ * windows sharing the plugin's storage.
+ */
+
+export class WriteLock {
+  private tail: Promise<unknown> = Promise.resolve()
+
+  constructor(private name: string) { }
+
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(() => this.acquire(fn))
+    // Keep the queue going even if this task fails
+    this.tail = result.catch(() => undefined)
+    return result
+  }
+
+  private async acquire<T>(fn: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return await navigator.locks.request(this.name, fn)
+    }
+    return fn()
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import type { Drawing } from '../../types'
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, SchemaVersionError, migrateDrawing } from './migrations'
+
+function drawing(props: Record<string, unknown> = {}): Drawing {
+  return { id: 'd', name: 'Plan', data: { elements: [] }, createdAt: 1, updatedAt: 1, ...props } as Drawing
+}
+
+describe('migrateDrawing', () => {
+  it('upgrades unversioned drawings to the current schema', () => {
+    const { drawing: migrated, migrated: changed } = migrateDrawing(drawing())
+
+    expect(changed).toBe(true)
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+  })
+
+  it('normalizes tags, including the old single tag', () => {
+    const { drawing: migrated } = migrateDrawing(drawing({ tags: ['#ui', ' ui ', '', 3], tag: 'sketch' }))
+
+    expect(migrated.tags).toEqual(['ui', 'sketch'])
+    expect(migrated).not.toHaveProperty('tag')
+  })
+
+  it('fills in missing elements', () => {
+    const { drawing: migrated } = migrateDrawing(drawing({ data: {} }))
+    expect(migrated.data.elements).toEqual([])
+  })
+
+  it('leaves current drawings alone', () => {
+    const current = drawing({ schemaVersion: CURRENT_SCHEMA_VERSION, tags: ['#kept'] })
+    const { drawing: migrated, migrated: changed } = migrateDrawing(current)
+
+    expect(changed).toBe(false)
+    expect(migrated).toEqual(current)
+  })
+
+  it('refuses drawings from a newer plugin', () => {
+    expect(() => migrateDrawing(drawing({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))).toThrow(SchemaVersionError)
+  })
+
+  it('has one migration per version step', () => {
+    expect(MIGRATIONS.map((m) => [m.from, m.to])).toEqual(
+      Array.from({ length: CURRENT_SCHEMA_VERSION - 1 }, (_, i) => [i + 1, i + 2])
+    )
+  })
+})
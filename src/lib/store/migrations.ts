@@ -0,0 +1,89 @@
+/**
+ * Drawing schema versions and the migration chain between them
+ *
+ * Every stored drawing carries a `schemaVersion`. Blobs written before
+ * versioning existed are treated as version 1. On load, migrations run in
+ * order up to CURRENT_SCHEMA_VERSION and the store writes the upgraded
+ * form back lazily.
+ *
+ * Version history:
+ *   1  Unversioned. Thumbnail and image files may be inline in the blob.
+ *   2  Tags normalized to a de-duplicated string array. Thumbnail and
+ *      files are stored under their own keys (done by the store's write
+ *      path when the migrated drawing is written back).
+ */
+
+import type { Drawing } from '../../types'
+
+export const CURRENT_SCHEMA_VERSION = 2
+
+export interface Migration {
+  from: number
+  to: number
+  description: string
+  migrate: (drawing: Drawing) => Drawing
+}
+
+/**
+ * Ordered chain; each entry upgrades exactly one version
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Normalize tags and split out thumbnail and files',
+    migrate: (drawing) => {
+      // Early builds stored a single `tag` string
+      const legacyTag = (drawing as Drawing & { tag?: string }).tag
+      const rawTags = [...(Array.isArray(drawing.tags) ? drawing.tags : []), ...(legacyTag ? [legacyTag] : [])]
+      const tags = Array.from(new Set(
+        rawTags
+          .filter((t): t is string => typeof t === 'string')
+          .map((t) => t.trim().replace(/^#/, ''))
+          .filter(Boolean)
+      ))
+
+      const { tag: _tag, ...rest } = drawing as Drawing & { tag?: string }
+      return {
+        ...rest,
+        tags,
+        data: { ...drawing.data, elements: drawing.data?.elements ?? [] },
+      }
+    },
+  },
+]
+
+export class SchemaVersionError extends Error {
+  constructor(public version: number) {
+    super(`Drawing schema version ${version} is newer than this plugin supports (${CURRENT_SCHEMA_VERSION})`)
+    this.name = 'SchemaVersionError'
+  }
+}
+
+export function getSchemaVersion(drawing: Pick<Drawing, 'schemaVersion'>): number {
+  return drawing.schemaVersion ?? 1
+}
+
+/**
+ * Run every migration the drawing hasn't had yet
+ * Throws SchemaVersionError for drawings written by a newer plugin, so
+ * they're never downgraded by a write-back.
+ */
+export function migrateDrawing(drawing: Drawing): { drawing: Drawing; migrated: boolean } {
+  let version = getSchemaVersion(drawing)
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(version)
+  }
+
+  let current = drawing
+  for (const migration of MIGRATIONS) {
+    if (migration.from !== version) continue
+    current = migration.migrate(current)
+    version = migration.to
+  }
+
+  return {
+    drawing: { ...current, schemaVersion: version },
+    migrated: version !== getSchemaVersion(drawing),
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import type { LibraryItem } from '@excalidraw/excalidraw/types/types'
+import { MemoryStorageBackend } from './backends'
+import { ShapeLibraryStore, mergeLibraryEdits } from './shapeLibrary'
+
+function item(id: string, name = id): LibraryItem {
+  return { id, name, status: 'unpublished', created: 1, elements: [] } as LibraryItem
+}
+
+describe('mergeLibraryEdits', () => {
+  it('keeps items another window added', () => {
+    const base = [item('a')]
+    expect(mergeLibraryEdits(base, [item('b'), item('a')], [item('c'), item('a')]).map((i) => i.id))
+      .toEqual(['c', 'b', 'a'])
+  })
+
+  it('keeps removals from both sides', () => {
+    const base = [item('a'), item('b')]
+    expect(mergeLibraryEdits(base, [item('b')], [item('a')])).toEqual([])
+  })
+
+  it('takes this window\'s version of an item', () => {
+    expect(mergeLibraryEdits([item('a')], [item('a', 'renamed')], [item('a')])).toEqual([item('a', 'renamed')])
+  })
+})
+
+describe('ShapeLibraryStore', () => {
+  it('keeps per-tag libraries apart', async () => {
+    const library = new ShapeLibraryStore(new MemoryStorageBackend())
+    await library.update('ui', () => [item('a')])
+
+    expect(await library.load('ui')).toEqual([item('a')])
+    expect(await library.load(null)).toEqual([])
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Excalidraw's shape library, kept across drawings
+ *
+ * Storage layout:
+ *   shape-library            Items shared by every drawing
+ *   shape-library-tag-<tag>  Items of the drawings with that tag, when
+ *                            libraries are kept per tag
+ *
+ * Values are encoded by codec.ts like scenes, so large libraries are
+ * compressed and chunked.
+ */
+
+import type { LibraryItems } from '@excalidraw/excalidraw/types/types'
+import type { StorageBackend } from './backends'
+import { BlobCodec } from './codec'
+import { WriteLock } from './lock'
+
+export const SHAPE_LIBRARY_KEY = 'shape-library'
+
+/**
+ * Key of a library: the shared one, or one tag's
+ */
+export function shapeLibraryKey(tag: string | null): string {
+  return tag ? `${SHAPE_LIBRARY_KEY}-tag-${encodeURIComponent(tag)}` : SHAPE_LIBRARY_KEY
+}
+
+/**
+ * Apply one window's edits (from `base` to `local`) to the library as
+ * stored now, matching items by id
+ * Items another window added are kept, items removed here stay removed,
+ * and items removed elsewhere aren't brought back.
+ */
+export function mergeLibraryEdits(base: LibraryItems, local: LibraryItems, stored: LibraryItems): LibraryItems {
+  const baseIds = new Set(base.map((item) => item.id))
+  const localIds = new Set(local.map((item) => item.id))
+  const storedIds = new Set(stored.map((item) => item.id))
+
+  const addedElsewhere = stored.filter((item) => !baseIds.has(item.id) && !localIds.has(item.id))
+  const kept = local.filter((item) => !baseIds.has(item.id) || storedIds.has(item.id))
+  return [...addedElsewhere, ...kept]
+}
+
+export class ShapeLibraryStore {
+  private blobs: BlobCodec
+  private lock = new WriteLock('logseq-excalidraw-db:shape-library')
+
+  constructor(backend: StorageBackend) {
+    this.blobs = new BlobCodec(backend)
+  }
+
+  /**
+   * Items of a library; empty if it was never saved
+   */
+  async load(tag: string | null): Promise<LibraryItems> {
+    const json = await this.blobs.read(shapeLibraryKey(tag))
+    if (!json) return []
+    const items = JSON.parse(json)
+    return Array.isArray(items) ? items : []
+  }
+
+  /**
+   * Read-modify-write a library, so changes from other windows aren't lost
+   * Returns the items written.
+   */
+  async update(
+    tag: string | null,
+    fn: (items: LibraryItems) => LibraryItems | Promise<LibraryItems>
+  ): Promise<LibraryItems> {
+    return this.lock.run(async () => {
+      const next = await fn(await this.load(tag))
+      await this.blobs.write(shapeLibraryKey(tag), JSON.stringify(next))
+      return next
+    })
+  }
+}
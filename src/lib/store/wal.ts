@@ -0,0 +1,62 @@
+/**
+ * Write-ahead log for multi-key store operations
+ *
+ * A record is written before an operation touches more than one key and
+ * removed once it completes. Records left behind by an interrupted
+ * create or delete are replayed by `DrawingStore.recover` on startup.
+ */
+
+import type { DrawingMeta } from '../../types'
+import { generateId, getCurrentTimestamp } from '../utils'
+import type { StorageBackend } from './backends'
+
+export const WAL_KEY_PREFIX = 'wal-'
+
+export type WalRecord =
+  | { txId: string; op: 'create'; id: string; entry: DrawingMeta; startedAt: number }
+  | { txId: string; op: 'delete'; id: string; startedAt: number }
+
+type WalRecordInput =
+  | { op: 'create'; id: string; entry: DrawingMeta }
+  | { op: 'delete'; id: string }
+
+export function walKey(txId: string): string {
+  return `${WAL_KEY_PREFIX}${txId}`
+}
+
+export class WriteAheadLog {
+  constructor(private backend: StorageBackend) { }
+
+  /**
+   * Record an operation before performing it; returns its transaction id
+   */
+  async begin(input: WalRecordInput): Promise<string> {
+    const record = { ...input, txId: generateId(), startedAt: getCurrentTimestamp() } as WalRecord
+    await this.backend.setItem(walKey(record.txId), JSON.stringify(record))
+    return record.txId
+  }
+
+  /**
+   * Mark an operation as complete
+   */
+  async commit(txId: string): Promise<void> {
+    await this.backend.removeItem(walKey(txId))
+  }
+
+  /**
+   * Records of operations that never completed, oldest first
+   * Unreadable records are returned as null so they can be dropped.
+   */
+  async pending(): Promise<Array<{ key: string; record: WalRecord | null }>> {
+    const keys = (await this.backend.allKeys()).filter((key) => key.startsWith(WAL_KEY_PREFIX))
+    const records = await Promise.all(keys.map(async (key) => {
+      try {
+        const recordStr = await this.backend.getItem(key)
+        return { key, record: recordStr ? JSON.parse(recordStr) as WalRecord : null }
+      } catch {
+        return { key, record: null }
+      }
+    }))
+    return records.sort((a, b) => (a.record?.startedAt ?? 0) - (b.record?.startedAt ?? 0))
+  }
+}
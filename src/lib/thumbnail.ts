@@ -0,0 +1,91 @@
+/**
+ * Drawing thumbnails
+ *
+ * Saves don't wait for a preview: once a save has committed, the drawing
+ * is queued here and rendered in the background as a small WebP, at the
+ * size the thumbnail quality setting allows. A content hash kept in the
+ * metadata index skips drawings whose preview is already up to date.
+ */
+
+import type { ExcalidrawElement } from '@excalidraw/excalidraw/types/element/types'
+import type { AppState, BinaryFiles } from '@excalidraw/excalidraw/types/types'
+import type { Drawing, ExcalidrawData } from '../types'
+import { blobToDataURL } from './utils'
+import { logger } from './logger'
+import { BackgroundQueue } from './backgroundQueue'
+import { getSettings, THUMBNAIL_SIZES } from './settings'
+import { drawingStore } from './store'
+import { getSceneVersion } from './store/history'
+
+const THUMBNAIL_MIME_TYPE = 'image/webp'
+const THUMBNAIL_QUALITY = 0.8
+
+/**
+ * Render a small preview of a scene
+ * Rasterized at the size the thumbnail quality setting allows, so
+ * embedded images aren't stored again at full resolution.
+ */
+export async function renderThumbnail(
+  elements: readonly ExcalidrawElement[],
+  appState: Partial<AppState>,
+  files: BinaryFiles | null
+): Promise<string | null> {
+  if (elements.filter((e) => !e.isDeleted).length === 0) return null
+
+  const { exportToBlob } = await import('@excalidraw/excalidraw')
+  const blob = await exportToBlob({
+    elements,
+    appState: {
+      exportWithDarkMode: false,
+      exportBackground: true,
+      viewBackgroundColor: appState.viewBackgroundColor ?? '#ffffff',
+    },
+    files,
+    maxWidthOrHeight: THUMBNAIL_SIZES[getSettings().thumbnailQuality],
+    mimeType: THUMBNAIL_MIME_TYPE,
+    quality: THUMBNAIL_QUALITY,
+  })
+  return blobToDataURL(blob)
+}
+
+/**
+ * Hash of what a thumbnail shows, background included, and the size it
+ * is rendered at
+ * Element versions cover images too: an image element names its file.
+ */
+export async function thumbnailHash(data: ExcalidrawData, size: number): Promise<string> {
+  const elements = data.elements
+    .filter((e) => !e.isDeleted)
+    .map((e) => `${e.id}:${e.version}`)
+  const source = JSON.stringify([size, data.appState?.viewBackgroundColor ?? null, elements])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function updateThumbnail(drawing: Drawing) {
+  const meta = await drawingStore.getMeta(drawing.id)
+  if (!meta || meta.deletedAt) return
+
+  const hash = await thumbnailHash(drawing.data, THUMBNAIL_SIZES[getSettings().thumbnailQuality])
+  if (meta.thumbnailKey && meta.thumbnailHash === hash) return
+
+  const thumbnail = await renderThumbnail(
+    drawing.data.elements,
+    drawing.data.appState ?? {},
+    await drawingStore.loadSceneFiles(drawing.data)
+  )
+  if (!thumbnail) return
+
+  const stored = await drawingStore.setThumbnail(drawing.id, thumbnail, getSceneVersion(drawing), hash)
+  logger.debug('Thumbnail', stored ? 'updated:' : 'outdated, dropped:', drawing.id)
+}
+
+const queue = new BackgroundQueue<Drawing>('thumbnail', updateThumbnail)
+
+/**
+ * Queue a just-saved drawing for a thumbnail
+ * Only its latest version is rendered if it is saved again meanwhile.
+ */
+export function scheduleThumbnail(drawing: Drawing) {
+  queue.schedule(drawing.id, drawing)
+}
@@ -0,0 +1,75 @@
+/**
+ * Per-drawing editor state
+ *
+ * The part of Excalidraw's appState kept with each drawing: where the
+ * canvas was scrolled and zoomed to, the styles the next shape is drawn
+ * with, and the zen and grid toggles. Everything else in appState
+ * (selection, open menus, dialogs...) only matters for the session.
+ */
+
+import type { AppState } from '@excalidraw/excalidraw/types/types'
+
+export const PERSISTED_KEYS = [
+  'viewBackgroundColor',
+  'gridSize',
+  'zenModeEnabled',
+  'scrollX',
+  'scrollY',
+  'zoom',
+  'currentItemStrokeColor',
+  'currentItemBackgroundColor',
+  'currentItemFillStyle',
+  'currentItemStrokeWidth',
+  'currentItemStrokeStyle',
+  'currentItemRoughness',
+  'currentItemOpacity',
+  'currentItemFontFamily',
+  'currentItemFontSize',
+  'currentItemTextAlign',
+  'currentItemStartArrowhead',
+  'currentItemEndArrowhead',
+  'currentItemRoundness',
+] as const
+
+/** Where the canvas is looked at from, as opposed to what's drawn on it */
+export const VIEWPORT_KEYS = ['scrollX', 'scrollY', 'zoom'] as const
+
+export type PersistedAppState = Partial<Pick<AppState, typeof PERSISTED_KEYS[number]>>
+
+export interface ViewToggles {
+  zenModeEnabled: boolean
+  gridModeEnabled: boolean
+}
+
+/**
+ * The subset of appState to store with a drawing
+ */
+export function pickPersistedAppState(appState: Partial<AppState>): PersistedAppState {
+  const picked: Record<string, unknown> = {}
+  for (const key of PERSISTED_KEYS) {
+    if (appState[key] !== undefined) picked[key] = appState[key]
+  }
+  return picked as PersistedAppState
+}
+
+/**
+ * Whether a drawing was saved with a scroll position and zoom
+ * Older drawings and imported files don't have one.
+ */
+export function hasSavedViewport(appState?: Partial<AppState>): boolean {
+  return typeof appState?.scrollX === 'number'
+    && typeof appState.scrollY === 'number'
+    && typeof appState.zoom?.value === 'number'
+}
+
+/**
+ * Zen and grid toggles to open a drawing with
+ * Drawings saved before the toggles were stored use the defaults.
+ */
+export function savedViewToggles(appState: Partial<AppState> | undefined, defaults: ViewToggles): ViewToggles {
+  if (!appState || typeof appState.zenModeEnabled !== 'boolean') return defaults
+  return {
+    zenModeEnabled: appState.zenModeEnabled,
+    gridModeEnabled: appState.gridSize != null,
+  }
+}
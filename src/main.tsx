@@ -48,59 +48,20 @@ import {
   registerSearchService,
   setupSearchResultHandler,
   setOpenCallback,
-  setGetDrawingCallback,
-  setLoadAllDrawingsCallback,
   refreshSearchIndex,
   updateDrawingCommands,
-  rememberCurrentPage
+  rememberCurrentPage,
+  applyRendererSize
 } from './lib/plugin'
-import type { RenderAppProps, Drawing } from './types'
+import { drawingStore } from './lib/store'
+import { removeExportedAssets } from './lib/assetExport'
+import { getSettings, onSettingsChange, registerSettings } from './lib/settings'
+import { flushPendingChanges, guardedExit, hasUnsavedChanges } from './lib/exitGuard'
+import type { RenderAppProps } from './types'
 
 let root: ReactDOM.Root | null = null
-
-// Storage helper to get drawing data
-async function getDrawingFromStorage(id: string): Promise<Drawing | null> {
-  try {
-    const storage = logseq.Assets.makeSandboxStorage()
-    const drawingStr = await storage.getItem(`drawing-${id}`)
-    if (drawingStr) {
-      return JSON.parse(drawingStr)
-    }
-  } catch (e) {
-    logger.error('Failed to get drawing:', e)
-  }
-  return null
-}
-
-// Storage helper to load all drawings (for search)
-async function loadAllDrawingsFromStorage(): Promise<Drawing[]> {
-  try {
-    const storage = logseq.Assets.makeSandboxStorage()
-    const indexStr = await storage.getItem('drawings-index')
-    const index: string[] = indexStr ? JSON.parse(indexStr) : []
-
-    if (index.length === 0) {
-      return []
-    }
-
-    const drawings: Drawing[] = []
-    for (const id of index) {
-      try {
-        const drawingStr = await storage.getItem(`drawing-${id}`)
-        if (drawingStr) {
-          drawings.push(JSON.parse(drawingStr))
-        }
-      } catch (e) {
-        logger.warn('Failed to parse drawing:', id)
-      }
-    }
-
-    return drawings.sort((a, b) => b.updatedAt - a.updatedAt)
-  } catch (e) {
-    logger.error('Failed to load all drawings:', e)
-    return []
-  }
-}
+// Bumped on every render so each open starts from the requested mode
+let renderCount = 0
 
 // Global render function for Logseq
 function renderApp(props: RenderAppProps) {
@@ -114,17 +75,33 @@ function renderApp(props: RenderAppProps) {
     root = ReactDOM.createRoot(container)
   }
 
+  // Another Logseq window may have written since we last rendered
+  drawingStore.invalidate()
+
   root.render(
     <React.StrictMode>
-      <App {...props} />
+      <App key={++renderCount} {...props} />
     </React.StrictMode>
   )
 }
 
+/**
+ * Show a view, first saving edits in an editor that is still mounted
+ * Stays on the editor when the user keeps their unsaved changes.
+ */
+async function openView(props: RenderAppProps) {
+  if (!(await flushPendingChanges())) return
+  renderApp(props)
+  logseq.showMainUI({ autoFocus: true })
+}
+
 // Main entry point
 async function main() {
   logger.info('Plugin initializing...')
 
+  registerSettings()
+  logger.setLevel(getSettings().logLevel)
+
   // Check if this is a DB graph
   try {
     const appInfo = await logseq.App.getInfo()
@@ -143,12 +120,6 @@ async function main() {
     zIndex: 999,
   })
 
-  // Set callback for getting drawing data (used by block renderer)
-  setGetDrawingCallback(getDrawingFromStorage)
-
-  // Set callback for loading all drawings (used by search service)
-  setLoadAllDrawingsCallback(loadAllDrawingsFromStorage)
-
   // Open callback - supports optional drawingId to open specific drawing
   const openExcalidraw = async (drawingId?: string) => {
     // Remember current page before opening (for insert feature)
@@ -156,16 +127,23 @@ async function main() {
 
     if (drawingId) {
       // Open specific drawing in edit mode
-      renderApp({ mode: 'edit', drawingId })
+      await openView({ mode: 'edit', drawingId })
     } else {
       // Open dashboard
-      renderApp({ mode: 'dashboard' })
+      await openView({ mode: 'dashboard' })
     }
-    logseq.showMainUI({ autoFocus: true })
+  }
+
+  const openRepair = async () => {
+    await openView({ mode: 'repair' })
+  }
+
+  const openLegacyImport = async () => {
+    await openView({ mode: 'legacy-import' })
   }
 
   // Register plugin commands - these open the main UI
-  registerCommands(openExcalidraw)
+  registerCommands(openExcalidraw, openRepair, openLegacyImport)
 
   // Set callback for slash commands
   setOpenCallback(openExcalidraw)
@@ -179,10 +157,31 @@ async function main() {
   // Setup handler for search result clicks
   setupSearchResultHandler()
 
+  // Exported images of a drawing go with it
+  drawingStore.onDelete((id) => {
+    removeExportedAssets(id).catch(e => logger.warn('Failed to remove exported assets:', id, e))
+  })
+
   // Initialize search index and register drawing commands
-  loadAllDrawingsFromStorage().then(drawings => {
-    refreshSearchIndex(drawings)
-    // Also update command palette entries for each drawing
+  // Finish or undo any create/delete interrupted in a previous session first
+  drawingStore.recover()
+    .catch(e => logger.error('Failed to recover pending writes:', e))
+    // Permanently delete drawings past the Trash retention period
+    .then(() => drawingStore.purgeTrash(getSettings().trashRetentionDays))
+    .catch(e => logger.error('Failed to purge trash:', e))
+    .then(() => drawingStore.listMeta())
+    .then(drawings => {
+      refreshSearchIndex(drawings)
+      // Also update command palette entries for each drawing
+      updateDrawingCommands()
+    })
+    .catch(e => logger.error('Failed to load all drawings:', e))
+    // Drop image files no drawing references any more
+    .then(() => drawingStore.collectGarbage())
+    .catch(e => logger.warn('File garbage collection failed:', e))
+
+  // Keep command palette entries in sync with store changes
+  drawingStore.subscribe(() => {
     updateDrawingCommands()
   })
 
@@ -193,11 +192,10 @@ async function main() {
     logger.debug('Received excalidraw:open event, drawingId:', drawingId)
     await rememberCurrentPage()
     if (drawingId) {
-      renderApp({ mode: 'edit', drawingId })
+      await openView({ mode: 'edit', drawingId })
     } else {
-      renderApp({ mode: 'dashboard' })
+      await openView({ mode: 'dashboard' })
     }
-    logseq.showMainUI({ autoFocus: true })
   })
 
   // Register toolbar button
@@ -218,13 +216,10 @@ async function main() {
   logseq.provideModel({
     openExcalidraw() {
       // Fix: Capture context before opening
-      rememberCurrentPage().then(() => {
-        renderApp({ mode: 'dashboard' })
-        logseq.showMainUI({ autoFocus: true })
-      })
+      rememberCurrentPage().then(() => openView({ mode: 'dashboard' }))
     },
     closeExcalidraw() {
-      logseq.hideMainUI()
+      guardedExit(() => logseq.hideMainUI())
     },
   })
 
@@ -232,19 +227,33 @@ async function main() {
   document.addEventListener('keydown', (e) => {
     if (e.key === 'Escape') {
       logger.debug('Escape pressed, hiding UI')
-      logseq.hideMainUI({ restoreEditingCursor: true })
+      guardedExit(() => logseq.hideMainUI({ restoreEditingCursor: true }))
     }
   })
 
-  // Listen for visibility changes
   // Listen for visibility changes
   logseq.on('ui:visible:changed', ({ visible }: { visible: boolean }) => {
     logger.debug('UI visibility changed:', visible)
+    // Logseq can hide the UI itself; the editor stays mounted, so save now
+    if (!visible && hasUnsavedChanges()) flushPendingChanges()
+  })
+
+  // Plugin reload, disable or app quit: save without prompting, nobody can answer
+  logseq.beforeunload(async () => {
+    await flushPendingChanges(false)
+  })
+  window.addEventListener('pagehide', () => {
+    if (hasUnsavedChanges()) flushPendingChanges(false)
   })
 
-  // Listen for settings changes
-  logseq.onSettingsChanged((newSettings: any) => {
-    logger.debug('Settings changed:', newSettings)
+  // Apply settings that live outside React; open views re-render through useSettings
+  onSettingsChange((settings) => {
+    logger.setLevel(settings.logLevel)
+    logger.debug('Settings changed:', settings)
+    applyRendererSize(settings.rendererSize)
+    // A shorter retention takes effect right away
+    drawingStore.purgeTrash(settings.trashRetentionDays)
+      .catch(e => logger.error('Failed to purge trash:', e))
   })
 
   logger.info('Plugin loaded successfully')
@@ -5,21 +5,45 @@ export interface ExcalidrawData {
   elements: readonly ExcalidrawElement[]
   appState?: Partial<AppState>
   files?: BinaryFiles
+  fileRefs?: Record<string, string>  // file id -> content hash in the asset store
 }
 
 export interface Drawing {
+  schemaVersion?: number  // see lib/store/migrations.ts; absent means 1
   id: string           // page uuid
   name: string         // page name
   tags?: string[]      // category tags for search
   data: ExcalidrawData
-  thumbnail?: string   // SVG data URL for preview
+  thumbnail?: string   // WebP data URL for preview
   createdAt: number
   updatedAt: number
+  revision?: number    // bumped on every write; see lib/store/conflicts.ts
+}
+
+/**
+ * Lightweight per-drawing record kept in the metadata index
+ * Enough to render cards and command palette entries without
+ * parsing the full scene.
+ */
+export interface DrawingMeta {
+  id: string
+  name: string
+  tags?: string[]
+  createdAt: number
+  updatedAt: number
+  schemaVersion?: number
+  revision?: number
+  thumbnailKey?: string  // storage key of the preview image, if any
+  thumbnailHash?: string // content hash the preview was rendered from
+  linkedExport?: 'svg' | 'png'  // re-exported to graph assets on every save
+  elementCount: number   // non-deleted elements
+  byteSize: number       // size of the serialized scene
+  deletedAt?: number     // set while the drawing is in the Trash
 }
 
 export type Theme = 'light' | 'dark'
 
-export type AppMode = 'edit' | 'preview' | 'dashboard'
+export type AppMode = 'edit' | 'preview' | 'present' | 'dashboard' | 'repair' | 'legacy-import'
 
 export interface RenderAppProps {
   mode: AppMode
@@ -28,19 +52,27 @@ export interface RenderAppProps {
 }
 
 export interface DashboardProps {
-  drawings: Drawing[]
+  drawings: DrawingMeta[]
   onOpen: (id: string) => void
   onCreate: (name: string, tags?: string[]) => Promise<Drawing | null>
-  onUpdate: (id: string, updates: { name?: string; tags?: string[] }) => Promise<Drawing | null>
+  onUpdate: (id: string, updates: { name?: string; tags?: string[] }) => Promise<DrawingMeta | null>
   onDelete: (id: string) => Promise<boolean>
+  trash: DrawingMeta[]
+  trashRetentionDays: number
+  onRestore: (id: string) => Promise<boolean>
+  onPurge: (id: string) => Promise<boolean>
+  onEmptyTrash: () => Promise<number>
+  onMigrateAll: () => Promise<number>
   onClose: () => void
 }
 
 export interface ExcalidrawEditorProps {
   drawing: Drawing
-  mode: 'edit' | 'preview'
+  mode: 'edit' | 'preview' | 'present'
   theme: Theme
   onSave: (drawing: Drawing) => Promise<Drawing | null>
+  onRestoreSnapshot: (snapshotId: string) => Promise<Drawing | null>
+  onForkSnapshot: (snapshotId: string) => Promise<Drawing | null>
   onBack: () => void
   onModeChange: (mode: AppMode) => void
   onClose: () => void